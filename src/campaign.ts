@@ -0,0 +1,81 @@
+/**
+ * @sparklytics/next — Campaign parameters shared by the client and server entry points
+ *
+ * Reads UTM parameters and ad click IDs from a query string and maps them onto
+ * collect event fields. No React, no browser APIs — safe in the Edge Runtime.
+ */
+
+// ============================================================
+// Parameters
+// ============================================================
+
+export const UTM_KEYS = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content'] as const
+export type UtmKey = typeof UTM_KEYS[number]
+
+/**
+ * Campaign parameters captured alongside the UTMs by default: ad click IDs
+ * (Google, Meta, Microsoft, TikTok, LinkedIn).
+ */
+export const DEFAULT_CAMPAIGN_PARAMS: readonly string[] = [
+  'gclid',
+  'gbraid',
+  'wbraid',
+  'fbclid',
+  'msclkid',
+  'ttclid',
+  'li_fat_id',
+]
+
+/**
+ * Referral-style parameters sites also use for internal links (`?ref=nav`,
+ * `?source=footer`). Opt-in through `campaignParams`; on their own they never
+ * start a new campaign.
+ */
+const GENERIC_PARAMS: readonly string[] = ['ref', 'source']
+
+/** Longest campaign parameter value kept; click IDs are well below this. */
+const MAX_CAMPAIGN_VALUE_LENGTH = 500
+
+/** Campaign fields of a collect event. */
+export type CampaignFields = Partial<Record<UtmKey, string>> & {
+  /** Campaign parameters other than the UTMs, e.g. `{ gclid: '…' }`. */
+  campaign_params?: Record<string, string>
+}
+
+// ============================================================
+// Reading and mapping
+// ============================================================
+
+/**
+ * The UTM parameters and `params` present in `search` (a query string, with or
+ * without the leading `?`), as one flat object. Empty values are skipped.
+ */
+export function readCampaign(search: string, params: readonly string[]): Record<string, string> {
+  const query = new URLSearchParams(search)
+  const campaign: Record<string, string> = {}
+  for (const key of [...UTM_KEYS, ...params]) {
+    const value = query.get(key)?.trim()
+    if (value) campaign[key] = value.slice(0, MAX_CAMPAIGN_VALUE_LENGTH)
+  }
+  return campaign
+}
+
+/**
+ * Whether a flat campaign object carries a real campaign key — a UTM or a click
+ * ID — rather than only generic referral parameters.
+ */
+export function hasCampaignKey(campaign: Record<string, string>): boolean {
+  return Object.keys(campaign).some((key) => !GENERIC_PARAMS.includes(key))
+}
+
+/** Map a flat campaign object onto event fields: UTMs top-level, the rest in `campaign_params`. */
+export function toCampaignFields(campaign: Record<string, string>): CampaignFields {
+  const fields: CampaignFields = {}
+  const extra: Record<string, string> = {}
+  for (const [key, value] of Object.entries(campaign)) {
+    if ((UTM_KEYS as readonly string[]).includes(key)) fields[key as UtmKey] = value
+    else extra[key] = value
+  }
+  if (Object.keys(extra).length > 0) fields.campaign_params = extra
+  return fields
+}
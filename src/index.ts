@@ -1,8 +1,15 @@
 'use client'
 
-import React, { createContext, useContext, useEffect, useRef } from 'react'
+import React, { createContext, useContext, useEffect, useLayoutEffect, useRef } from 'react'
 import Link from 'next/link'
-import { usePathname } from 'next/navigation'
+import { usePathname, useSearchParams } from 'next/navigation'
+// As a namespace too: useParams() only exists from Next.js 13.3 — see useRouteSegments()
+import * as navigation from 'next/navigation'
+import { prepareEvent, redactEvent, type RedactionRules } from './redaction'
+import { DEFAULT_CAMPAIGN_PARAMS, UTM_KEYS, hasCampaignKey, readCampaign, toCampaignFields, type CampaignFields } from './campaign'
+
+export type { RedactionPattern, RedactionRules } from './redaction'
+export { DEFAULT_CAMPAIGN_PARAMS } from './campaign'
 
 // ============================================================
 // Typed event schema — augment this interface in your project
@@ -67,6 +74,20 @@ export interface SparklyticsProviderProps {
    * For external links, `href` is the full URL; for internal links, pathname+search+hash.
    */
   trackLinks?: boolean | 'outbound'
+  /**
+   * Optional. Maximum time in milliseconds to hold an outbound navigation while
+   * its click event is delivered — only used when `navigator.sendBeacon` is
+   * unavailable.
+   *
+   * Outbound and download clicks (from `trackLinks` or an off-origin
+   * `<TrackedLink>`) are always flushed immediately. With `sendBeacon` the
+   * browser guarantees delivery; without it, a non-zero `outboundDelay`
+   * prevents the navigation, waits for the request (at most this long) and
+   * then navigates. `0` never delays navigation.
+   *
+   * @default 0
+   */
+  outboundDelay?: number
   /**
    * Optional. Automatically track scroll depth milestones.
    *
@@ -78,6 +99,21 @@ export interface SparklyticsProviderProps {
    * Each threshold fires at most once per page. Resets automatically on navigation.
    */
   trackScrollDepth?: boolean | number[]
+  /**
+   * Optional. Automatically track file downloads via event delegation.
+   *
+   * A click counts as a download when the `<a>` has a `download` attribute or
+   * its URL path ends in one of the tracked extensions.
+   *
+   * - `true`        — track the default extensions (pdf, zip, dmg, csv, docx, xlsx, …)
+   * - `string[]`    — track custom extensions instead (e.g. `['pdf', 'epub']`)
+   * - `false`       — disabled (default)
+   *
+   * Fires a `"file_download"` event with `{ file_name, extension?, same_origin }`.
+   * Download clicks are reported only as `"file_download"`, never also as
+   * `"link_click"`.
+   */
+  trackDownloads?: boolean | string[]
   /**
    * Optional. Automatically track HTML form submissions via event delegation.
    * Fires a `"form_submit"` event whenever any `<form>` on the page is submitted.
@@ -85,12 +121,422 @@ export interface SparklyticsProviderProps {
    * Payload: `{ form_id?, form_name?, action? }` — all fields are optional and
    * derived from the form element's attributes.
    *
+   * - `true`        — `"form_submit"` only
+   * - `'extended'`  — also follow each form from its first focused field:
+   *   `"form_start"`, `"form_invalid"` for browser validation failures,
+   *   `time_to_submit_ms` and `fields_touched` on `"form_submit"`, and
+   *   `"form_abandon"` when the visitor leaves the page or hides the tab
+   *   without submitting (once per form). A visitor who comes back and submits
+   *   after that gets `resumed: true` on `"form_submit"`, cancelling the
+   *   abandon.
+   *   Fields are identified by `name` (or `id`); values are never read.
+   * - `false`       — disabled (default)
+   *
+   * @default false
+   */
+  trackForms?: boolean | 'extended'
+  /**
+   * Optional. Persist undeliverable events and replay them later.
+   *
+   * When enabled, batches that fail after the retry (or that are flushed while
+   * `navigator.onLine` is `false`) are written to IndexedDB — or `localStorage`
+   * when IndexedDB is unavailable — instead of being dropped. Persisted events
+   * are replayed on the next page load and whenever the `online` event fires.
+   *
+   * - `true`                  — enable with the default caps (24 hours, 100 events)
+   * - `OfflineQueueOptions`   — enable with custom `maxAge` / `maxEvents` caps
+   * - `false`                 — disabled (default); failed batches are dropped
+   *
+   * @default false
+   */
+  offlineQueue?: boolean | OfflineQueueOptions
+  /**
+   * Optional. Retry policy for failed deliveries to the collect endpoint.
+   *
+   * Network errors and the statuses in `retryableStatuses` are retried with
+   * exponential backoff; any other HTTP error (e.g. 400, 403) is permanent and
+   * the batch is dropped immediately. `Retry-After` on 429/503 responses is
+   * honored, up to `maxRetryAfter`.
+   *
+   * While a retry is pending, every tab of the site and the offline replay
+   * hold their deliveries too, so a struggling server is not hit from all of
+   * them at once.
+   *
+   * The default policy matches earlier releases: one retry after 2 seconds.
+   */
+  retry?: RetryPolicy
+  /**
+   * Optional. Wait for an explicit consent decision before sending anything.
+   *
+   * When `true`, consent starts as `"pending"` (unless a choice was stored on
+   * an earlier visit) and every event — including the initial pageview — is
+   * held in memory. Call `setConsent()` to release (`"granted"`) or discard
+   * (`"denied"`) the held events. The choice is persisted in `localStorage`.
+   *
+   * Without the `marketing` category, UTM parameters are never attached.
+   *
+   * @default false
+   */
+  requireConsent?: boolean
+  /**
+   * Optional. Inspect, modify or drop every event before it is queued — return
+   * the event (or a modified copy) to send it, or `null` to drop it.
+   *
+   * Runs for every event: pageviews, automatic events (links, scroll, forms,
+   * …) and `track()` calls, after `visitor_id` and `session_id` are attached.
+   * An exception drops the event.
+   */
+  beforeSend?: (event: BatchEvent) => BatchEvent | null
+  /**
+   * Optional. Declarative redaction applied to every event after `beforeSend`:
+   * sensitive URL path segments (also in page titles), referrers reduced to
+   * their origin, and `event_data` / `page_data` / `campaign_params` keys.
+   * Patterns are regular expressions or globs.
+   *
+   * @example
+   * ```tsx
+   * redact={{ pathSegments: [/^[0-9a-f]{32}$/i, 'eyJ*'], eventDataKeys: ['email'] }}
+   * ```
+   */
+  redact?: RedactionRules
+  /**
+   * Optional. Report Core Web Vitals as `"web_vitals"` events.
+   *
+   * Payload: `{ metric, value, rating, navigation_type, update? }` where `metric` is one
+   * of `LCP`, `CLS`, `INP`, `FCP`, `TTFB` and `rating` is `"good"`,
+   * `"needs-improvement"` or `"poor"`. Each event's `url` is the page the
+   * metric was measured on.
+   *
+   * CLS and INP are measured per route, including soft navigations
+   * (`navigation_type: "soft-navigation"`), and reported when the tab is
+   * hidden — mobile browsers may discard it without `pagehide` — and when the
+   * route ends, on the next route or on `pagehide`. A visitor who comes back
+   * keeps adding to the same page: a value that changed since it was reported
+   * is sent again with `update: true`, replacing the earlier one. LCP, FCP and
+   * TTFB describe the document load: browsers do not measure them for
+   * client-side route changes, so they are reported for hard loads only.
+   *
+   * @default false
+   */
+  trackWebVitals?: boolean
+  /**
+   * Optional. Keep a client-side session and attach `session_id` to every
+   * pageview and event.
+   *
+   * A session ends after `timeout` of inactivity (no events) or when the
+   * visitor lands with a different campaign (UTM or other campaign parameters).
+   * Each new session emits a `"session_start"` event with `{ entry_page, utm_* }`
+   * plus any other campaign parameters of the landing page. The session
+   * lives in `sessionStorage`, so every tab has its own.
+   *
+   * - `true`            — enable with a 30 minute inactivity timeout
+   * - `SessionOptions`  — enable with a custom `timeout`
+   * - `false`           — disabled (default)
+   *
+   * @default false
+   */
+  trackSessions?: boolean | SessionOptions
+  /**
+   * Optional. Measure engaged time per page and send a `"page_leave"` event
+   * when the visitor leaves it.
+   *
+   * Engaged time only counts while the tab is visible and the visitor has
+   * interacted within `idleTimeout`. The `"page_leave"` event fires once per
+   * pageview — on the next route change (any detection path), `pagehide`, or
+   * the tab becoming hidden, whichever comes first. When the visitor returns
+   * to a hidden tab and engages again, that time is sent when they leave
+   * again, in a `"page_leave"` flagged `continuation: true` — it adds engaged
+   * time but is not another leave.
+   *
+   * Payload: `{ duration_ms, max_scroll_depth, continuation? }`.
+   *
+   * @default false
+   */
+  trackEngagement?: boolean | EngagementOptions
+  /**
+   * Optional. Report uncaught errors and unhandled promise rejections as
+   * `"js_error"` events.
+   *
+   * Payload: `{ message, source, line, column, fingerprint, kind }` where
+   * `fingerprint` is a short hash of the error's message and location and
+   * `kind` is `"error"` or `"unhandledrejection"`. Each fingerprint is sent
+   * at most once per pageview, and at most `maxPerPage` errors are sent per
+   * pageview, so a failing render loop cannot flood the queue.
+   *
+   * @default false
+   */
+  trackErrors?: boolean | ErrorTrackingOptions
+  /**
+   * Optional. Detect frustrated clicking and report it as events.
+   *
+   * - `"rage_click"` — `rageClicks` clicks within `rageRadius` px of each other
+   *   inside `rageWindow` ms. Payload: `{ selector, text, clicks }`.
+   * - `"dead_click"` — a click on a button, link or other interactive-looking
+   *   element that causes no DOM mutation, navigation or network request
+   *   within `deadClickTimeout` ms. Payload: `{ selector, text }`.
+   *
+   * `selector` is a CSS selector for the clicked element that avoids
+   * generated class names; `text` is its visible text (max 100 chars).
+   *
+   * @default false
+   */
+  trackFrustration?: boolean | FrustrationOptions
+  /**
+   * Optional. Report internal site searches from the page URL's query string.
+   *
+   * After each pageview whose URL has a non-empty search parameter, a
+   * `"site_search"` event is sent with `{ term, category?, result_count? }`.
+   * The term is trimmed, whitespace-collapsed and lower-cased.
+   *
+   * - `true`                  — watch `q`, `query` and `s`
+   * - `string[]`              — watch these parameter names instead
+   * - `SearchTrackingOptions` — custom parameters, a category parameter and a
+   *   result count callback
+   * - `false`                 — disabled (default)
+   *
+   * @default false
+   */
+  trackSearch?: boolean | string[] | SearchTrackingOptions
+  /**
+   * Optional. Keep selected query parameters and/or the hash in the recorded
+   * `url`, which is otherwise the path only. Applies to pageviews and to the
+   * `url` of every event.
+   *
+   * @example { queryParams: ['category', 'page'], hash: true }
+   */
+  captureUrl?: UrlCaptureOptions
+  /**
+   * Optional. Send the page title as `title` on every pageview: the `title`
+   * of a mounted `<PageProperties>`, else `document.title`. For SPA
+   * navigations `document.title` is read once the new page has rendered,
+   * which usually but not always reflects App Router metadata or `next/head`
+   * — pass `title` to `<PageProperties>` when it must be exact.
+   *
    * @default false
    */
-  trackForms?: boolean
+  trackTitle?: boolean
+  /**
+   * Optional. Query parameters captured on landing next to the UTMs, persisted
+   * for the rest of the tab's session and sent as `campaign_params` on every
+   * pageview. Replaces the default list — spread `DEFAULT_CAMPAIGN_PARAMS` to
+   * extend it.
+   *
+   * Generic referral parameters such as `ref` and `source` are not captured
+   * unless listed here. On their own they are kept only when no campaign is
+   * stored yet, and never replace the stored set.
+   *
+   * @default DEFAULT_CAMPAIGN_PARAMS — gclid, gbraid, wbraid, fbclid, msclkid,
+   *   ttclid, li_fat_id
+   */
+  campaignParams?: readonly string[]
+  /**
+   * Optional. Remember the visitor's first and last campaign touch — UTMs and
+   * `campaignParams`, the referring domain, landing page and time — in
+   * `localStorage`, and send them as `first_touch_*` / `last_touch_*` fields.
+   * A touch is recorded when a pageview URL carries campaign parameters or the
+   * visitor arrives from another site, never on a back/forward cache restore.
+   * Pass `true` to attach them to every event, or an object to change the
+   * lookback window or limit them to conversion events.
+   *
+   * Touches are campaign data: they need the `marketing` consent category.
+   *
+   * @default false
+   * @example { lookbackDays: 90, events: ['signup', 'purchase'] }
+   */
+  attribution?: boolean | AttributionOptions
+  /**
+   * Optional. Other domains of the same site, e.g. `["shop.example-store.com"]`
+   * (subdomains included). Clicks on links to them add a short-lived visitor
+   * token to the URL; a provider with `crossDomain` on the receiving domain
+   * adopts the visitor ID as if `identify()` had been called there, and
+   * removes the token from the address bar. Only identified visitors are
+   * carried over, and with `requireConsent` only once analytics consent is
+   * granted.
+   *
+   * The token is not signed — anyone can craft a link carrying any visitor ID
+   * (a key shipped to the browser would be public, so signing cannot prevent
+   * that). Treat the adopted ID as an analytics hint, never as authentication.
+   */
+  crossDomain?: string[]
   children: React.ReactNode
 }
 
+/** Options for the `captureUrl` prop and the `usePageview()` option. */
+export interface UrlCaptureOptions {
+  /**
+   * Query parameters kept in `url`, e.g. `['category', 'page']`. All others
+   * are dropped, so tokens and tracking parameters never reach the dashboard.
+   */
+  queryParams?: string[]
+  /**
+   * Keep the hash (`#/guide/install`), e.g. for hash-routed pages.
+   * @default false
+   */
+  hash?: boolean
+  /**
+   * Record navigations that only change a kept query parameter or the hash
+   * as pageviews — including `router.replace()` calls seen through
+   * `useSearchParams()`. When off, such navigations are not recorded.
+   * @default false
+   */
+  trackParamChanges?: boolean
+}
+
+/** Options for the `trackSearch` prop. */
+export interface SearchTrackingOptions {
+  /**
+   * Query parameters that hold the search term; the first non-empty one wins.
+   * @default ['q', 'query', 's']
+   */
+  params?: string[]
+  /**
+   * Query parameter that holds the search category or scope, e.g. `"type"`.
+   */
+  categoryParam?: string
+  /**
+   * Number of results shown for `term`, or `undefined` when unknown. Called
+   * once the search page has rendered — usually before client-side results
+   * have loaded, so return a promise that resolves with the count once they
+   * have; the event waits for it (up to 10 seconds, then it is sent without a
+   * count). Return `0` to surface zero-result searches.
+   */
+  resultCount?: (term: string) => number | null | undefined | Promise<number | null | undefined>
+}
+
+/** Options for the `trackFrustration` prop. */
+export interface FrustrationOptions {
+  /**
+   * Number of clicks that make a rage click.
+   * @default 3
+   */
+  rageClicks?: number
+  /**
+   * Window in milliseconds the clicks must fall within.
+   * @default 1000
+   */
+  rageWindow?: number
+  /**
+   * Maximum distance in pixels between the clicks.
+   * @default 30
+   */
+  rageRadius?: number
+  /**
+   * Milliseconds to wait for a DOM mutation, navigation or request after a
+   * click before reporting it as a dead click.
+   * @default 1000
+   */
+  deadClickTimeout?: number
+}
+
+/** Options for the `trackErrors` prop. */
+export interface ErrorTrackingOptions {
+  /**
+   * Maximum number of distinct errors reported per pageview.
+   * @default 10
+   */
+  maxPerPage?: number
+}
+
+/** Options for the `trackEngagement` prop. */
+export interface EngagementOptions {
+  /**
+   * Milliseconds without input (pointer, keyboard, scroll, touch) after which
+   * the visitor counts as idle and engaged time stops accumulating.
+   * @default 30000
+   */
+  idleTimeout?: number
+}
+
+/** Options for the `trackSessions` prop. */
+export interface SessionOptions {
+  /**
+   * Inactivity period in milliseconds after which the next event starts a new session.
+   * @default 1800000 (30 minutes)
+   */
+  timeout?: number
+}
+
+/** Options for the `attribution` prop. */
+export interface AttributionOptions {
+  /**
+   * Days a touch is kept. Once the last touch is older, the visitor counts as
+   * unattributed and the next touch becomes their first.
+   * @default 30
+   */
+  lookbackDays?: number
+  /**
+   * Events that carry the touches: `"all"` for every pageview and event, or
+   * the names of your conversion events (custom events only).
+   * @default "all"
+   */
+  events?: 'all' | readonly string[]
+}
+
+/** A campaign touch remembered by `attribution`. */
+export interface AttributionTouch extends CampaignFields {
+  /** Hostname of the referring site, when the visitor came from another site. */
+  referrer_domain?: string
+  /** Recorded URL of the page the touch landed on. */
+  landing_page: string
+  /** When the touch happened, as an ISO 8601 string. */
+  timestamp: string
+}
+
+/** Retry behaviour for client-side delivery (see `retry`). */
+export interface RetryPolicy {
+  /**
+   * Total delivery attempts per batch, including the first one.
+   * `1` disables retries.
+   * @default 2
+   */
+  maxAttempts?: number
+  /**
+   * Delay before the first retry in milliseconds. Doubles on every further attempt.
+   * @default 2000
+   */
+  baseDelay?: number
+  /**
+   * Upper bound for a single backoff delay in milliseconds. Delays requested
+   * via `Retry-After` are capped by `maxRetryAfter` instead.
+   * @default 30000
+   */
+  maxDelay?: number
+  /**
+   * Upper bound for a delay requested by the server via `Retry-After`, in
+   * milliseconds.
+   * @default 600000 (10 minutes)
+   */
+  maxRetryAfter?: number
+  /**
+   * Randomisation factor between `0` and `1`. Each delay is reduced by a random
+   * amount up to this fraction so that many tabs don't retry in lockstep.
+   * @default 0
+   */
+  jitter?: number
+  /**
+   * HTTP status codes that are worth retrying. Network errors are always retried.
+   * @default [408, 425, 429, 500, 502, 503, 504]
+   */
+  retryableStatuses?: number[]
+}
+
+/** Caps applied to the persisted offline queue (see `offlineQueue`). */
+export interface OfflineQueueOptions {
+  /**
+   * Maximum age of a persisted event in milliseconds, counted from when it was
+   * first stored — a failed replay does not renew it. Older events are
+   * discarded instead of replayed.
+   * @default 86400000 (24 hours)
+   */
+  maxAge?: number
+  /**
+   * Maximum number of persisted events. When exceeded, the oldest events
+   * are discarded first.
+   * @default 100
+   */
+  maxEvents?: number
+}
+
 export interface SparklyticsHook {
   /**
    * Track a custom event.
@@ -113,7 +559,10 @@ export interface SparklyticsHook {
    * Useful for virtual pages, full-screen modals, multi-step wizards, or
    * any UI pattern where meaningful content changes without a URL change.
    *
-   * @param url - Optional URL to record. Defaults to `window.location.pathname`.
+   * @param url - Optional URL to record. Defaults to `window.location.pathname`,
+   *   plus the query parameters and hash kept by `captureUrl`.
+   * @param data - Optional page properties for this pageview, merged over those
+   *   of the mounted `<PageProperties>` components.
    *
    * @example
    * ```ts
@@ -123,9 +572,12 @@ export interface SparklyticsHook {
    * function openProductModal(id: string) {
    *   pageview(`/products/${id}`)
    * }
+   *
+   * // A virtual page with its own properties
+   * pageview('/checkout/payment', { step: 2 })
    * ```
    */
-  pageview(url?: string): void
+  pageview(url?: string, data?: Record<string, unknown>): void
   /**
    * Identify the current visitor with a stable ID for cross-session stitching.
    *
@@ -137,11 +589,13 @@ export interface SparklyticsHook {
    * address or numeric user ID.
    *
    * @param visitorId - A stable, non-reversible identifier (max 64 chars).
+   * @param traits - Optional visitor traits (plan, role, …), sent as an
+   *   `"identify"` event.
    *
    * @example Via hook (inside a component)
    * ```ts
    * const { identify } = useSparklytics()
-   * identify(hashedUserId)
+   * identify(hashedUserId, { plan: 'pro' })
    * ```
    * @example Via standalone import (outside a component — preferred)
    * ```ts
@@ -149,9 +603,10 @@ export interface SparklyticsHook {
    * identify(hashedUserId)
    * ```
    */
-  identify(visitorId: string): void
+  identify(visitorId: string, traits?: Record<string, unknown>): void
   /**
-   * Clear the identified visitor ID from `localStorage`.
+   * Clear the identified visitor ID, the anonymous ID and the persisted super
+   * properties from `localStorage`.
    *
    * Equivalent to the standalone `reset()` export. Call this on logout.
    *
@@ -167,19 +622,106 @@ export interface SparklyticsHook {
    * ```
    */
   reset(): void
+  /**
+   * Record the visitor's consent decision.
+   *
+   * Equivalent to the standalone `setConsent()` export. Only has an effect on
+   * delivery when the provider has `requireConsent` enabled.
+   *
+   * @param consent - `"granted"` / `"denied"` for all categories, or a
+   *   per-category object such as `{ analytics: true, marketing: false }`.
+   *
+   * @example
+   * ```ts
+   * const { setConsent } = useSparklytics()
+   * <button onClick={() => setConsent('granted')}>Accept</button>
+   * ```
+   */
+  setConsent(consent: ConsentChoice): void
+  /**
+   * Register super properties, merged into `event_data` of every event.
+   *
+   * Equivalent to the standalone `register()` export.
+   *
+   * @example
+   * ```ts
+   * const { register } = useSparklytics()
+   * register({ plan: 'pro' }, { persist: true })
+   * ```
+   */
+  register(properties: Record<string, unknown>, options?: RegisterOptions): void
+  /**
+   * Remove a super property registered with `register()`.
+   *
+   * Equivalent to the standalone `unregister()` export.
+   */
+  unregister(key: string): void
+}
+
+/** Options for `register()`. */
+export interface RegisterOptions {
+  /**
+   * Keep the properties in `localStorage` so they are attached after a page
+   * reload and on later visits, until `unregister()` removes them. Without
+   * it they last until the page is reloaded.
+   * @default false
+   */
+  persist?: boolean
 }
 
+/** Consent lifecycle state. `"pending"` until the visitor decides. */
+export type ConsentState = 'pending' | 'granted' | 'denied'
+
+/**
+ * Consent categories.
+ *
+ * - `analytics` — pageviews and events are sent at all
+ * - `marketing` — campaign attribution (UTM parameters, ad click IDs) is attached
+ */
+export type ConsentCategory = 'analytics' | 'marketing'
+
+/**
+ * Argument to `setConsent()`. `"granted"` / `"denied"` apply to every
+ * category; in the object form, omitted categories count as denied.
+ */
+export type ConsentChoice =
+  | Exclude<ConsentState, 'pending'>
+  | Partial<Record<ConsentCategory, boolean>>
+
 // ============================================================
 // Batch event shape (internal wire format)
 // ============================================================
 
-const UTM_KEYS = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content'] as const
-type UtmKey = typeof UTM_KEYS[number]
-
-/** sessionStorage key used to persist UTM params across SPA navigations within a tab. */
+/** sessionStorage key used to persist campaign params (UTMs, click IDs) across SPA navigations within a tab. */
 const UTM_SESSION_KEY = '_spl_utm'
 
-export interface BatchEvent {
+/** Campaign set seen while consent is pending — stored once marketing consent is granted. */
+let pendingCampaign: Record<string, string> | null = null
+
+/** sessionStorage key holding the current client-side session (trackSessions). */
+const SESSION_KEY = '_spl_session'
+
+/** Fields of an attribution touch, sent with a `first_touch_` / `last_touch_` prefix. */
+const TOUCH_FIELDS = [...UTM_KEYS, 'campaign_params', 'referrer_domain', 'landing_page', 'timestamp'] as const
+
+/** BatchEvent fields that require the `marketing` consent category. */
+const MARKETING_KEYS: readonly (keyof BatchEvent)[] = [
+  ...UTM_KEYS,
+  'campaign_params',
+  ...TOUCH_FIELDS.map((field) => `first_touch_${field}` as const),
+  ...TOUCH_FIELDS.map((field) => `last_touch_${field}` as const),
+]
+
+/** The fields of an attribution touch under `Prefix`, e.g. `first_touch_utm_source`. */
+type TouchFields<Prefix extends string> = {
+  [K in keyof AttributionTouch as `${Prefix}_${K & string}`]?: AttributionTouch[K]
+}
+
+/**
+ * Wire format of an event. With `attribution`, events also carry the visitor's
+ * first and last campaign touch as `first_touch_*` / `last_touch_*` fields.
+ */
+export interface BatchEvent extends TouchFields<'first_touch'>, TouchFields<'last_touch'> {
   website_id: string
   type: 'pageview' | 'event'
   url: string
@@ -198,60 +740,118 @@ export interface BatchEvent {
   utm_campaign?: string
   utm_term?: string
   utm_content?: string
+  /**
+   * Other campaign parameters — ad click IDs such as `gclid` or `fbclid`. Read
+   * and persisted like the UTMs; see `campaignParams`.
+   */
+  campaign_params?: Record<string, string>
   event_name?: string
   event_data?: Record<string, unknown>
+  /** `true` on a pageview recorded because the page was restored from the back/forward cache. */
+  bfcache?: boolean
+  /**
+   * Route pattern of a pageview, e.g. `/products/[id]` for `url: "/products/123"`.
+   * From App Router params, or the page path on the Pages Router.
+   */
+  route?: string
+  /**
+   * `true` on a pageview whose URL is rendered by an intercepting route (such as
+   * a modal in a parallel slot) instead of as a full page.
+   */
+  intercepted?: boolean
+  /** Page title — on pageviews when `trackTitle` is enabled. */
+  title?: string
+  /**
+   * Page-level custom dimensions from `<PageProperties>` (or `pageview(url, data)`),
+   * on the pageview and on every event raised on that page.
+   */
+  page_data?: Record<string, unknown>
+  /** Client-side session ID — present when `trackSessions` is enabled. */
+  session_id?: string
   /**
    * Optional stable visitor ID set via {@link SparklyticsHook.identify}.
    * When present, the backend uses this instead of computing from IP + User-Agent.
    */
   visitor_id?: string
+  /**
+   * ID of the browser's anonymous history, on every event sent before
+   * identify() — the `previous_id` of the alias event that ties it to the
+   * identified visitor. Cleared by reset().
+   */
+  anonymous_id?: string
 }
 
 /**
- * Resolve UTM parameters for the current pageview.
+ * Resolve campaign parameters — the UTMs plus `campaignParams` (ad click IDs
+ * and the like) — for the current pageview.
  *
  * Priority: URL query string > sessionStorage (persisted from earlier in the session).
- * When UTMs are present in the URL they are stored in sessionStorage so they remain
- * attached to all subsequent pageviews in the same tab — even after the user navigates
- * to pages that no longer carry UTM query params.
+ * When a UTM or click ID is present in the URL, the set is stored in sessionStorage so it
+ * remains attached to all subsequent pageviews in the same tab — even after the user
+ * navigates to pages that no longer carry the query params.
  *
  * sessionStorage is tab-scoped and auto-cleared when the tab is closed, so a new
  * session always starts fresh.
+ *
+ * While consent is pending (`persist` false) nothing is written: the set is kept
+ * in memory and only stored by setConsent() once marketing consent is granted.
+ *
+ * Generic parameters alone (`?ref=producthunt`) are captured when no campaign is
+ * stored yet, but never replace one — sites also use them on internal links.
  */
-function resolveUtmParams(): Partial<Pick<BatchEvent, UtmKey>> {
+function resolveCampaignParams(campaignParams: readonly string[], persist = true): CampaignFields {
   if (typeof window === 'undefined') return {}
 
-  const params = new URLSearchParams(window.location.search)
-  const fromUrl: Partial<Pick<BatchEvent, UtmKey>> = {}
-  for (const key of UTM_KEYS) {
-    const val = params.get(key)
-    if (val) fromUrl[key] = val
-  }
+  const fromUrl = readCampaign(window.location.search, campaignParams)
+  const stored = (persist ? null : pendingCampaign) ?? readStoredCampaign()
 
-  if (Object.keys(fromUrl).length > 0) {
-    // Fresh UTMs in the URL — persist them for the rest of this session
+  if (hasCampaignKey(fromUrl) || (Object.keys(fromUrl).length > 0 && !stored)) {
+    if (!persist) {
+      pendingCampaign = fromUrl
+      return toCampaignFields(fromUrl)
+    }
+    // Fresh campaign in the URL — persist it for the rest of this session
     try { sessionStorage.setItem(UTM_SESSION_KEY, JSON.stringify(fromUrl)) } catch { /* quota / private mode */ }
-    return fromUrl
+    return toCampaignFields(fromUrl)
   }
 
-  // No UTMs in URL — restore from session (covers SPA navigations after the landing page)
+  // No new campaign in URL — restore the stored one (covers SPA navigations after the landing page)
+  return stored ? toCampaignFields(stored) : {}
+}
+
+/** The campaign persisted in sessionStorage for this tab session, if any. */
+function readStoredCampaign(): Record<string, string> | null {
   try {
     const stored = sessionStorage.getItem(UTM_SESSION_KEY)
-    if (stored) return JSON.parse(stored) as Partial<Pick<BatchEvent, UtmKey>>
-  } catch { /* sessionStorage unavailable or value corrupted */ }
-
-  return {}
+    return stored ? JSON.parse(stored) as Record<string, string> : null
+  } catch {
+    // sessionStorage unavailable or value corrupted
+    return null
+  }
 }
 
+/** Longest page title sent with `trackTitle`; longer titles are truncated. */
+const MAX_TITLE_LENGTH = 200
+
+/**
+ * Events reporting on a page once it is being left. They carry the page
+ * properties snapshotted with the page's pageview: by the time they are sent
+ * the next page's `<PageProperties>` may already be mounted.
+ */
+const EXIT_EVENTS: ReadonlySet<string> = new Set(['page_leave', 'form_abandon', 'web_vitals'])
+
 /**
  * Collect browser-side metadata that enriches every pageview event automatically.
  * Called at navigation time so screen and UTM values reflect the current page.
  * SSR-safe: returns {} when window is not available.
  */
-function getPageviewExtras(): Partial<Pick<BatchEvent, 'language' | 'screen' | 'screen_width' | 'screen_height' | UtmKey>> {
+function getPageviewExtras(
+  consent: ConsentCategories | null = ALL_CONSENT,
+  campaignParams: readonly string[] = DEFAULT_CAMPAIGN_PARAMS,
+): Partial<Pick<BatchEvent, 'language' | 'screen' | 'screen_width' | 'screen_height'>> & CampaignFields {
   if (typeof window === 'undefined') return {}
 
-  const extras: Partial<Pick<BatchEvent, 'language' | 'screen' | 'screen_width' | 'screen_height' | UtmKey>> = {}
+  const extras: Partial<Pick<BatchEvent, 'language' | 'screen' | 'screen_width' | 'screen_height'>> = {}
 
   if (typeof navigator !== 'undefined' && navigator.language) {
     extras.language = navigator.language
@@ -263,37 +863,520 @@ function getPageviewExtras(): Partial<Pick<BatchEvent, 'language' | 'screen' | '
     extras.screen_height = window.screen.height
   }
 
-  return { ...extras, ...resolveUtmParams() }
-}
+  // Campaign attribution needs marketing consent. While consent is still
+  // pending (null) campaign params are captured but not stored; they are
+  // stripped on release if denied.
+  if (consent && !consent.marketing) return extras
 
-// ============================================================
-// Privacy signal check (DNT + GPC)
-// ============================================================
+  return { ...extras, ...resolveCampaignParams(campaignParams, consent !== null) }
+}
 
-function isPrivacyBlocked(respectDnt: boolean): boolean {
-  if (!respectDnt) return false
-  if (typeof navigator === 'undefined') return false
-  if (navigator.doNotTrack === '1') return true
-  if ((navigator as unknown as { globalPrivacyControl?: boolean }).globalPrivacyControl === true) return true
-  return false
+/**
+ * Apply `beforeSend` and `redact` to an outgoing event. Returns null when the
+ * event is dropped — including when `beforeSend` throws, so a broken hook can
+ * never leak what it was meant to strip.
+ */
+function prepareOutgoing(
+  event: BatchEvent,
+  beforeSend: ((event: BatchEvent) => BatchEvent | null) | undefined,
+  rules: RedactionRules | undefined,
+): BatchEvent | null {
+  try {
+    return prepareEvent(event, beforeSend, rules)
+  } catch {
+    return null
+  }
 }
 
 // ============================================================
-// Visitor identification (identify / reset)
+// URL capture (captureUrl)
 // ============================================================
 
-/** localStorage key for the identify() visitor ID override. */
-const IDENTIFY_KEY = 'sparklytics_visitor_id'
+/** Path part of a recorded URL, without query string or hash. */
+function getUrlPath(url: string): string {
+  return url.split(/[?#]/)[0]
+}
 
 /**
- * Read the currently identified visitor ID from localStorage.
- * Returns undefined when localStorage is unavailable or no ID is set.
+ * `href` (path, query and hash) reduced to what is recorded: the path, the
+ * query parameters in `options.queryParams` (in their original order) and,
+ * with `options.hash`, the hash. Path only when `options` is null.
  */
-function getIdentifiedVisitor(): string | undefined {
-  try {
-    return localStorage.getItem(IDENTIFY_KEY) ?? undefined
-  } catch {
-    return undefined
+function captureUrl(href: string, options: UrlCaptureOptions | null | undefined): string {
+  const path = getUrlPath(href)
+  if (!options) return path
+
+  const hashAt = href.indexOf('#')
+  const hash = hashAt === -1 ? '' : href.slice(hashAt)
+  const queryAt = href.indexOf('?')
+  let query = ''
+  if (options.queryParams?.length && queryAt !== -1 && (hashAt === -1 || queryAt < hashAt)) {
+    const params = new URLSearchParams(href.slice(queryAt + 1, hashAt === -1 ? undefined : hashAt))
+    const kept = new URLSearchParams()
+    params.forEach((value, name) => {
+      if (options.queryParams!.includes(name)) kept.append(name, value)
+    })
+    query = kept.toString()
+  }
+  return path + (query ? `?${query}` : '') + (options.hash && hash.length > 1 ? hash : '')
+}
+
+/** The current page's URL as recorded under `options`. */
+function getPageUrl(options: UrlCaptureOptions | null | undefined): string {
+  if (!options) return window.location.pathname
+  return captureUrl(window.location.pathname + window.location.search + window.location.hash, options)
+}
+
+/**
+ * Whether a navigation to `url` only changed the query string or hash of the
+ * last recorded pageview — not recorded unless `trackParamChanges` is set.
+ */
+function isParamOnlyChange(
+  url: string,
+  lastUrl: string | undefined,
+  options: UrlCaptureOptions | null | undefined,
+): boolean {
+  if (!options || options.trackParamChanges || lastUrl === undefined) return false
+  return url !== lastUrl && getUrlPath(url) === getUrlPath(lastUrl)
+}
+
+// ============================================================
+// Route templates
+// ============================================================
+
+/** What AppRouterTracker last rendered: the URL and its route pattern. */
+interface RouteInfo {
+  url: string
+  /** Undefined on Next.js versions without useParams() (before 13.3). */
+  route?: string
+  intercepted: boolean
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value)
+  } catch {
+    return value
+  }
+}
+
+/**
+ * Route pattern for `pathname` given the dynamic params that produced it:
+ * `/products/123` with `{ id: '123' }` → `/products/[id]`. Catch-all params
+ * (arrays) become `[...name]`. Params are aligned right to left in reverse
+ * order, so a static segment equal to a param value is left alone.
+ */
+function getRouteTemplate(pathname: string, params: Record<string, string | string[] | undefined> | null): string {
+  const segments = pathname.split('/')
+  let limit = segments.length
+  for (const [name, value] of Object.entries(params ?? {}).reverse()) {
+    if (value == null) continue
+    const values = (Array.isArray(value) ? value : [value]).map(safeDecode)
+    if (values.length === 0) continue
+    for (let start = limit - values.length; start > 0; start--) {
+      if (!values.every((v, i) => safeDecode(segments[start + i]) === v)) continue
+      segments.splice(start, values.length, Array.isArray(value) ? `[...${name}]` : `[${name}]`)
+      limit = start
+      break
+    }
+  }
+  return segments.join('/')
+}
+
+/**
+ * Whether the `children` slot renders `pathname` as a page. When an
+ * intercepting route shows the URL in a parallel slot (e.g. a modal),
+ * `children` keeps rendering the page underneath, so its segments no longer
+ * spell out the URL. Route groups and internal segments are ignored.
+ * Assumes the provider sits in the root layout.
+ */
+function isRenderedAsPage(pathname: string, layoutSegments: string[]): boolean {
+  const visible = layoutSegments
+    .flatMap((segment) => segment.split('/'))
+    .filter((segment) => segment && !segment.startsWith('(') && !segment.startsWith('__'))
+    .map(safeDecode)
+  const parts = pathname.split('/').filter(Boolean).map(safeDecode)
+  return visible.length === parts.length && visible.every((segment, i) => segment === parts[i])
+}
+
+/**
+ * Route pattern stored by the Pages Router in its history entries
+ * (`{ url: '/products/[id]?id=123', as, __N: true }`), or the current page
+ * on first load. Undefined on the App Router.
+ */
+function getPagesRoute(state?: unknown): string | undefined {
+  if (state === undefined) {
+    return (window as { __NEXT_DATA__?: { page?: string } }).__NEXT_DATA__?.page
+  }
+  const entry = state as { __N?: boolean; url?: unknown } | null
+  if (!entry?.__N || typeof entry.url !== 'string') return undefined
+  return entry.url.split('?')[0]
+}
+
+// ============================================================
+// Client-side sessions (trackSessions)
+// ============================================================
+
+const DEFAULT_SESSION_TIMEOUT = 30 * 60 * 1000
+
+interface StoredSession {
+  id: string
+  /** Epoch ms of the last event in this session. */
+  lastActivity: number
+  /** Serialized UTM parameters the session started with, if any. */
+  campaign?: string
+}
+
+/** Random identifier — UUID where available, base36 otherwise. */
+function generateId(): string {
+  try {
+    if (typeof crypto !== 'undefined' && crypto.randomUUID) return crypto.randomUUID()
+  } catch { /* insecure context */ }
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 12)}`
+}
+
+/**
+ * Stable string for the campaign fields of an event, or undefined when it has
+ * none — or only generic parameters such as `ref`, which never start a session.
+ */
+function getCampaignSignature(event: BatchEvent): string | undefined {
+  if (!UTM_KEYS.some((key) => event[key]) && !hasCampaignKey(event.campaign_params ?? {})) return undefined
+  const values = [
+    ...UTM_KEYS.map((key) => event[key] ?? ''),
+    ...Object.entries(event.campaign_params ?? {}).map(([key, value]) => `${key}=${value}`),
+  ]
+  return values.some(Boolean) ? values.join('|') : undefined
+}
+
+/**
+ * Return the session for an event happening now, starting a new one when the
+ * previous session timed out or the event carries a different campaign.
+ * The session is written back to sessionStorage with the new activity time.
+ */
+function touchSession(
+  timeout: number,
+  campaign: string | undefined,
+): StoredSession & { started: boolean } {
+  const now = Date.now()
+  let stored: StoredSession | null = null
+  try {
+    const raw = sessionStorage.getItem(SESSION_KEY)
+    if (raw) stored = JSON.parse(raw) as StoredSession
+  } catch { /* sessionStorage unavailable or value corrupted */ }
+
+  const expired = !stored || now - stored.lastActivity > timeout
+  const campaignChanged = campaign !== undefined && campaign !== stored?.campaign
+  const started = expired || campaignChanged
+
+  const session: StoredSession = started
+    ? { id: generateId(), lastActivity: now, ...(campaign ? { campaign } : {}) }
+    : { ...stored!, lastActivity: now }
+
+  try { sessionStorage.setItem(SESSION_KEY, JSON.stringify(session)) } catch { /* quota / private mode */ }
+  return { ...session, started }
+}
+
+// ============================================================
+// Scroll position
+// ============================================================
+
+/**
+ * Current scroll position as an integer percentage of the scrollable height.
+ * Returns null when the document is not scrollable.
+ */
+function getScrollPercent(): number | null {
+  const scrollTop = window.scrollY ?? document.documentElement.scrollTop
+  const docHeight =
+    document.documentElement.scrollHeight - window.innerHeight
+  if (docHeight <= 0) return null
+  return Math.round((scrollTop / docHeight) * 100)
+}
+
+// ============================================================
+// First- and last-touch attribution (attribution)
+// ============================================================
+
+/** localStorage key holding the first and last campaign touches. */
+const ATTRIBUTION_KEY = '_spl_attribution'
+
+const DEFAULT_LOOKBACK_DAYS = 30
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+interface StoredAttribution {
+  first: AttributionTouch
+  last: AttributionTouch
+}
+
+interface ResolvedAttributionOptions {
+  lookbackMs: number
+  events: 'all' | readonly string[]
+}
+
+function resolveAttributionOptions(attribution: boolean | AttributionOptions): ResolvedAttributionOptions | null {
+  if (attribution === false) return null
+  const options = attribution === true ? {} : attribution
+  return {
+    lookbackMs: (options.lookbackDays ?? DEFAULT_LOOKBACK_DAYS) * DAY_MS,
+    events: options.events ?? 'all',
+  }
+}
+
+/**
+ * Read the stored touches, or null when there are none within the lookback
+ * window. A first touch that expired on its own is replaced by the last touch.
+ */
+function readAttribution(lookbackMs: number): StoredAttribution | null {
+  let stored: StoredAttribution | null = null
+  try {
+    const raw = localStorage.getItem(ATTRIBUTION_KEY)
+    if (raw) stored = JSON.parse(raw) as StoredAttribution
+  } catch { /* localStorage unavailable or value corrupted */ }
+  if (!stored?.first || !stored.last) return null
+
+  const cutoff = Date.now() - lookbackMs
+  if (!(Date.parse(stored.last.timestamp) >= cutoff)) return null
+  if (!(Date.parse(stored.first.timestamp) >= cutoff)) return { first: stored.last, last: stored.last }
+  return stored
+}
+
+/** Store `touch` as the last touch — and as the first when none is within the lookback window. */
+function recordTouch(touch: AttributionTouch, lookbackMs: number): void {
+  const first = readAttribution(lookbackMs)?.first ?? touch
+  try {
+    localStorage.setItem(ATTRIBUTION_KEY, JSON.stringify({ first, last: touch }))
+  } catch { /* quota / private mode */ }
+}
+
+/** The stored touches as `first_touch_*` / `last_touch_*` event fields. */
+function getAttributionFields(lookbackMs: number): Partial<BatchEvent> {
+  const stored = readAttribution(lookbackMs)
+  if (!stored) return {}
+  const fields: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(stored.first)) fields[`first_touch_${key}`] = value
+  for (const [key, value] of Object.entries(stored.last)) fields[`last_touch_${key}`] = value
+  return fields as Partial<BatchEvent>
+}
+
+/** Hostname of `referrer` when it belongs to another site, otherwise undefined. */
+function getReferrerDomain(referrer: string | undefined): string | undefined {
+  if (!referrer) return undefined
+  try {
+    const { hostname } = new URL(referrer)
+    return hostname && hostname !== window.location.hostname ? hostname : undefined
+  } catch {
+    return undefined
+  }
+}
+
+// ============================================================
+// Privacy signal check (DNT + GPC)
+// ============================================================
+
+function isPrivacyBlocked(respectDnt: boolean): boolean {
+  if (!respectDnt) return false
+  if (typeof navigator === 'undefined') return false
+  if (navigator.doNotTrack === '1') return true
+  if ((navigator as unknown as { globalPrivacyControl?: boolean }).globalPrivacyControl === true) return true
+  return false
+}
+
+// ============================================================
+// Consent management (requireConsent / setConsent)
+// ============================================================
+
+/** localStorage key for the persisted consent decision. */
+const CONSENT_KEY = 'sparklytics_consent'
+
+/** Upper bound for events held in memory while consent is pending. */
+const MAX_HELD_EVENTS = 100
+
+type ConsentCategories = Record<ConsentCategory, boolean>
+
+const ALL_CONSENT: ConsentCategories = { analytics: true, marketing: true }
+const NO_CONSENT: ConsentCategories = { analytics: false, marketing: false }
+
+/** Decision recorded by setConsent() on this page, used when localStorage is unavailable. */
+let pageConsent: ConsentCategories | null = null
+
+/** Mounted providers, notified when setConsent() records a new decision. */
+const consentListeners = new Set<(consent: ConsentCategories) => void>()
+
+function normalizeConsent(choice: ConsentChoice): ConsentCategories {
+  if (choice === 'granted') return ALL_CONSENT
+  if (choice === 'denied') return NO_CONSENT
+  return { analytics: choice.analytics === true, marketing: choice.marketing === true }
+}
+
+/**
+ * Read the persisted consent decision, falling back to the one recorded on this
+ * page when localStorage could not store it. Returns null while consent is pending.
+ */
+function getStoredConsent(): ConsentCategories | null {
+  try {
+    const raw = localStorage.getItem(CONSENT_KEY)
+    return raw ? normalizeConsent(JSON.parse(raw) as ConsentChoice) : pageConsent
+  } catch {
+    return pageConsent
+  }
+}
+
+/** Remove fields the visitor has not agreed to from an event. */
+function applyConsent(event: BatchEvent, consent: ConsentCategories): BatchEvent {
+  if (consent.marketing) return event
+  const filtered = { ...event }
+  for (const key of MARKETING_KEYS) delete filtered[key]
+  return filtered
+}
+
+/**
+ * Record the visitor's consent decision.
+ *
+ * Persists the choice in `localStorage` so it survives across visits (when
+ * storage is unavailable it still applies for the rest of the page), and
+ * notifies every mounted `<SparklyticsProvider requireConsent>`: events held
+ * while consent was pending are sent on grant and discarded on deny. Works
+ * without React context — call it straight from your consent banner.
+ *
+ * @param consent - `"granted"` / `"denied"` for all categories, or a
+ *   per-category object such as `{ analytics: true, marketing: false }`.
+ *
+ * @example Consent banner (no hook required)
+ * ```ts
+ * import { setConsent } from '@sparklytics/next'
+ *
+ * acceptAll.onclick   = () => setConsent('granted')
+ * rejectAll.onclick   = () => setConsent('denied')
+ * onlyNeeded.onclick  = () => setConsent({ analytics: true, marketing: false })
+ * ```
+ */
+export function setConsent(consent: ConsentChoice): void {
+  const categories = normalizeConsent(consent)
+  try {
+    localStorage.setItem(CONSENT_KEY, JSON.stringify(categories))
+    pageConsent = null
+  } catch {
+    // Storage unavailable — keep the decision in memory for the rest of this page
+    pageConsent = categories
+  }
+  const campaign = pendingCampaign
+  pendingCampaign = null
+  if (!categories.analytics || !categories.marketing) {
+    // Attribution touches are only kept while both categories are granted
+    try { localStorage.removeItem(ATTRIBUTION_KEY) } catch { /* storage unavailable */ }
+  }
+  if (!categories.marketing) {
+    // Drop campaign data captured before the decision
+    try { sessionStorage.removeItem(UTM_SESSION_KEY) } catch { /* storage unavailable */ }
+  } else if (campaign) {
+    // Campaign seen while pending — keep it for the rest of the session now that it may be stored
+    try { sessionStorage.setItem(UTM_SESSION_KEY, JSON.stringify(campaign)) } catch { /* quota / private mode */ }
+  }
+  consentListeners.forEach((listener) => listener(categories))
+}
+
+/**
+ * Read the current consent state: `"pending"` until `setConsent()` has been
+ * called on this device, then `"granted"` when analytics is allowed and
+ * `"denied"` otherwise. Use it to decide whether to show a consent banner.
+ */
+export function getConsent(): ConsentState {
+  const stored = getStoredConsent()
+  if (!stored) return 'pending'
+  return stored.analytics ? 'granted' : 'denied'
+}
+
+// ============================================================
+// Visitor identification (identify / reset)
+// ============================================================
+
+/** localStorage key for the identify() visitor ID override. */
+const IDENTIFY_KEY = 'sparklytics_visitor_id'
+
+/** Event name of the event carrying the traits passed to identify(). */
+const IDENTIFY_EVENT = 'identify'
+
+/** Event name of the event tying the anonymous history to the identified visitor. */
+const ALIAS_EVENT = 'alias'
+
+/** sessionStorage flag set once an alias event has been sent in this tab session. */
+const ALIAS_SESSION_KEY = '_spl_alias'
+
+/** localStorage key for the ID of the visitor's anonymous history, sent as `anonymous_id` and the alias's `previous_id`. */
+const ANONYMOUS_ID_KEY = 'sparklytics_anonymous_id'
+
+/** Stand-ins for the alias flag and anonymous ID when storage is unavailable, kept for the page. */
+let pageAliasClaimed = false
+let pageAnonymousId: string | undefined
+
+/** An event raised by identify(), sent by the mounted providers. */
+type IdentityEvent = Required<Pick<BatchEvent, 'event_name'>> & Pick<BatchEvent, 'event_data'>
+
+/** Mounted providers, notified when identify() raises an alias or identify event. */
+const identifyListeners = new Set<(event: IdentityEvent) => void>()
+
+/**
+ * Events raised by identify() while no provider was mounted — sent by the next
+ * provider to mount. Traits of repeated calls are merged into one event.
+ */
+const pendingIdentityEvents: IdentityEvent[] = []
+
+function emitIdentityEvent(event: IdentityEvent): void {
+  if (identifyListeners.size > 0) {
+    identifyListeners.forEach((listener) => listener(event))
+    return
+  }
+  const pending = pendingIdentityEvents.find((e) => e.event_name === event.event_name)
+  if (pending) pending.event_data = { ...pending.event_data, ...event.event_data }
+  else pendingIdentityEvents.push(event)
+}
+
+/**
+ * Whether this identify() is the anonymous visitor's first in the tab session
+ * — and mark it, so the anonymous history is aliased to one visitor only.
+ */
+function claimAlias(previousVisitorId: string | undefined): boolean {
+  if (previousVisitorId !== undefined) return false
+  try {
+    if (sessionStorage.getItem(ALIAS_SESSION_KEY)) return false
+    sessionStorage.setItem(ALIAS_SESSION_KEY, '1')
+    return true
+  } catch {
+    // Storage unavailable — once per page instead
+    if (pageAliasClaimed) return false
+    pageAliasClaimed = true
+    return true
+  }
+}
+
+/**
+ * The anonymous visitor's ID, created and persisted on first use. Sent as
+ * `anonymous_id` on every event delivered before identify(), so it names the
+ * whole anonymous history; cleared by reset().
+ */
+function getAnonymousId(): string {
+  try {
+    const stored = localStorage.getItem(ANONYMOUS_ID_KEY)
+    if (stored) return stored
+    const id = pageAnonymousId ?? generateId()
+    localStorage.setItem(ANONYMOUS_ID_KEY, id)
+    return id
+  } catch {
+    // Storage unavailable — keep one ID for the rest of the page
+    if (!pageAnonymousId) pageAnonymousId = generateId()
+    return pageAnonymousId
+  }
+}
+
+/**
+ * Read the currently identified visitor ID from localStorage.
+ * Returns undefined when localStorage is unavailable or no ID is set.
+ */
+function getIdentifiedVisitor(): string | undefined {
+  try {
+    return localStorage.getItem(IDENTIFY_KEY) ?? undefined
+  } catch {
+    return undefined
   }
 }
 
@@ -334,25 +1417,46 @@ function _clearVisitorId(): void {
  * **Privacy note:** pass a hashed or tokenised ID — **never** a raw email
  * address or numeric user ID.
  *
+ * The first call in a tab session for an anonymous visitor also sends an
+ * `"alias"` event: it carries the new visitor ID, the anonymous ID persisted
+ * for this browser as `event_data.previous_id` (as the server `alias()` does),
+ * and is sent from the same browser as the anonymous events before it, so the
+ * backend can tie that history (its IP + User-Agent visitor) to the
+ * identified visitor. With
+ * `traits`, an `"identify"` event carrying them as `event_data` follows.
+ * Both are sent by every mounted `<SparklyticsProvider>`, or by the next one
+ * to mount when none is.
+ *
  * @param visitorId - A stable, non-reversible identifier (max 64 chars).
+ * @param traits - Optional visitor traits such as plan, role, signup date or
+ *   company size. Same limits as `track()` event data.
  *
  * @example After login (no hook required)
  * ```ts
  * import { identify } from '@sparklytics/next'
  *
- * async function onLoginSuccess(userId: string) {
- *   const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(userId))
+ * async function onLoginSuccess(user: User) {
+ *   const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(user.id))
  *   const hex = Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('')
- *   identify(hex.slice(0, 16))
+ *   identify(hex.slice(0, 16), { plan: user.plan, role: user.role })
  * }
  * ```
  */
-export function identify(visitorId: string): void {
+export function identify(visitorId: string, traits?: Record<string, unknown>): void {
+  const previousVisitorId = getIdentifiedVisitor()
+  const anonymousId = previousVisitorId === undefined ? getAnonymousId() : undefined
   _setVisitorId(visitorId)
+  if (anonymousId && claimAlias(previousVisitorId)) {
+    emitIdentityEvent({ event_name: ALIAS_EVENT, event_data: { previous_id: anonymousId } })
+  }
+  if (traits) emitIdentityEvent({ event_name: IDENTIFY_EVENT, event_data: traits })
 }
 
 /**
- * Clear the identified visitor ID from `localStorage`.
+ * Clear the identified visitor ID from `localStorage`, along with the
+ * anonymous ID, so the next visitor's anonymous history starts afresh, and
+ * the super properties registered with `persist`. Super properties registered
+ * for the page load only are kept.
  *
  * Call this on logout so subsequent visits are no longer stitched to the
  * logged-in user's profile. Works without React context — no Provider or
@@ -369,72 +1473,1082 @@ export function identify(visitorId: string): void {
  */
 export function reset(): void {
   _clearVisitorId()
+  pageAnonymousId = undefined
+  try {
+    localStorage.removeItem(ANONYMOUS_ID_KEY)
+    // Persisted super properties describe the visitor who is logging out
+    localStorage.removeItem(SUPER_PROPERTIES_KEY)
+  } catch {
+    // Storage unavailable — fail silently
+  }
 }
 
 // ============================================================
-// Context — default is a no-op (safe for SSR / Server Components)
+// Cross-domain visitor continuity (crossDomain)
 // ============================================================
 
-const SparklyticsContext = createContext<SparklyticsHook>({
-  track: () => {},
-  pageview: () => {},
-  identify: () => {},
-  reset: () => {},
-})
+/** Query parameter carrying the visitor token on decorated links. */
+const CROSS_DOMAIN_PARAM = '_spl_vid'
 
-// ============================================================
-// Provider
-// ============================================================
+/**
+ * How long a visitor token is accepted after the click that created it. Long
+ * enough for a slow page load, short enough that a shared or bookmarked link
+ * does not hand the sender's visitor ID to someone else.
+ */
+const CROSS_DOMAIN_TOKEN_TTL = 30 * 1000
 
-export function SparklyticsProvider({
-  websiteId: websiteIdProp,
-  host: hostProp,
-  respectDnt = true,
-  disabled = false,
-  trackLinks = false,
-  trackScrollDepth = false,
-  trackForms = false,
-  children,
-}: SparklyticsProviderProps) {
-  // Resolve from env vars if not provided as props.
-  // process.env.NEXT_PUBLIC_* is inlined by the Next.js bundler at build time.
-  const websiteId =
-    websiteIdProp ??
-    (typeof process !== 'undefined'
-      ? process.env.NEXT_PUBLIC_SPARKLYTICS_WEBSITE_ID ?? ''
-      : '')
-  const host =
-    hostProp ??
-    (typeof process !== 'undefined'
-      ? process.env.NEXT_PUBLIC_SPARKLYTICS_HOST ?? ''
-      : '')
+/** Whether `hostname` is one of `domains` or a subdomain of one, and not the current site. */
+function isCrossDomainHost(hostname: string, domains: readonly string[]): boolean {
+  if (hostname === window.location.hostname) return false
+  return domains.some((domain) => {
+    const host = domain.toLowerCase()
+    return hostname === host || hostname.endsWith(`.${host}`)
+  })
+}
 
-  // Validate websiteId at runtime and fail gracefully
-  if (!websiteId) {
-    if (typeof console !== 'undefined') {
-      console.error(
-        '[Sparklytics] websiteId is required. ' +
-          'Pass it as a prop or set NEXT_PUBLIC_SPARKLYTICS_WEBSITE_ID. ' +
-          'No events will be sent.',
-      )
-    }
+/**
+ * `href` with a fresh visitor token for the identified visitor, or null when
+ * the link does not lead to one of `domains` or no visitor is identified.
+ */
+function decorateCrossDomainUrl(href: string, domains: readonly string[]): string | null {
+  const visitorId = getIdentifiedVisitor()
+  if (!visitorId) return null
+  let url: URL
+  try {
+    url = new URL(href, window.location.href)
+  } catch {
+    return null
   }
+  if (!/^https?:$/.test(url.protocol) || !isCrossDomainHost(url.hostname, domains)) return null
+  url.searchParams.set(CROSS_DOMAIN_PARAM, `${Date.now().toString(36)}.${visitorId}`)
+  return url.href
+}
 
-  // Trim trailing slash so "https://example.com/" and "https://example.com" both work
-  const collectUrl = host
-    ? `${host.replace(/\/$/, '')}/api/collect`
-    : '/api/collect'
+/**
+ * Read the visitor token from the current URL and remove it from the address
+ * bar. Returns the visitor ID it carries, or null when there is no token or it
+ * has expired.
+ */
+function takeCrossDomainVisitor(): string | null {
+  const params = new URLSearchParams(window.location.search)
+  const token = params.get(CROSS_DOMAIN_PARAM)
+  if (token === null) return null
 
-  const queueRef = useRef<BatchEvent[]>([])
-  const flushTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
-  const blockedRef = useRef<boolean>(false)
-  // Keep collectUrl accessible inside stable refs without stale closures
-  const collectUrlRef = useRef(collectUrl)
+  params.delete(CROSS_DOMAIN_PARAM)
+  const query = params.toString()
+  const clean = `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash ?? ''}`
+  try {
+    history.replaceState(history.state, '', clean)
+  } catch { /* replaceState unavailable */ }
+
+  const separator = token.indexOf('.')
+  const issued = parseInt(token.slice(0, separator), 36)
+  const visitorId = token.slice(separator + 1)
+  const age = Date.now() - issued
+  if (separator < 1 || !visitorId || !(age >= 0 && age <= CROSS_DOMAIN_TOKEN_TTL)) return null
+  return visitorId
+}
+
+// ============================================================
+// Super properties (register / unregister)
+//
+// Module-level like identify(): shared by every provider on the
+// page and callable without React context.
+// ============================================================
+
+/** localStorage key for super properties registered with `persist`. */
+const SUPER_PROPERTIES_KEY = 'sparklytics_super_properties'
+
+/** Super properties registered without `persist`, kept until the page is reloaded. */
+const pageSuperProperties: Record<string, unknown> = {}
+
+function getStoredSuperProperties(): Record<string, unknown> {
+  try {
+    const raw = localStorage.getItem(SUPER_PROPERTIES_KEY)
+    return raw ? (JSON.parse(raw) as Record<string, unknown>) : {}
+  } catch {
+    return {}
+  }
+}
+
+function setStoredSuperProperties(properties: Record<string, unknown>): void {
+  try {
+    if (Object.keys(properties).length > 0) localStorage.setItem(SUPER_PROPERTIES_KEY, JSON.stringify(properties))
+    else localStorage.removeItem(SUPER_PROPERTIES_KEY)
+  } catch {
+    // Storage unavailable — fail silently
+  }
+}
+
+/** Merge the registered super properties into `event_data` of a custom or automatic event. */
+function withSuperProperties(event: BatchEvent): BatchEvent {
+  // Identity events describe the visitor, not an action — they are sent as given
+  if (event.type !== 'event' || event.event_name === IDENTIFY_EVENT || event.event_name === ALIAS_EVENT) {
+    return event
+  }
+  const properties = { ...getStoredSuperProperties(), ...pageSuperProperties }
+  if (Object.keys(properties).length === 0) return event
+  // The event's own data wins over a super property of the same name
+  return { ...event, event_data: { ...properties, ...event.event_data } }
+}
+
+/**
+ * Register super properties: merged into `event_data` of every event sent
+ * from now on — `track()` calls and automatic events such as `link_click`,
+ * `scroll_depth` or `form_submit`. A key the event sets itself wins. Works
+ * without React context.
+ *
+ * Registering a key again replaces its value (and its persistence).
+ *
+ * @example
+ * ```ts
+ * import { register } from '@sparklytics/next'
+ *
+ * register({ app_version: '3.2' })                 // this page load
+ * register({ plan: 'pro' }, { persist: true })    // until unregister('plan')
+ * ```
+ */
+export function register(properties: Record<string, unknown>, options?: RegisterOptions): void {
+  const stored = getStoredSuperProperties()
+  for (const [key, value] of Object.entries(properties)) {
+    if (options?.persist) {
+      stored[key] = value
+      delete pageSuperProperties[key]
+    } else {
+      pageSuperProperties[key] = value
+      delete stored[key]
+    }
+  }
+  setStoredSuperProperties(stored)
+}
+
+/**
+ * Remove a super property registered with `register()`, persisted or not.
+ *
+ * @example On logout
+ * ```ts
+ * import { unregister } from '@sparklytics/next'
+ * unregister('plan')
+ * ```
+ */
+export function unregister(key: string): void {
+  delete pageSuperProperties[key]
+  const stored = getStoredSuperProperties()
+  if (!(key in stored)) return
+  delete stored[key]
+  setStoredSuperProperties(stored)
+}
+
+// ============================================================
+// Delivery retry policy (retry)
+// ============================================================
+
+const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 2,
+  baseDelay: 2000,
+  maxDelay: 30_000,
+  maxRetryAfter: 10 * 60 * 1000,
+  jitter: 0,
+  retryableStatuses: [408, 425, 429, 500, 502, 503, 504],
+}
+
+/** Non-2xx response from the collect endpoint. */
+class CollectResponseError extends Error {
+  constructor(
+    readonly status: number,
+    /** Delay requested by the `Retry-After` header, in milliseconds. */
+    readonly retryAfter: number | undefined,
+  ) {
+    super(`[Sparklytics] collect endpoint returned ${status}`)
+  }
+}
+
+/** Parse a `Retry-After` header (delta-seconds or HTTP date) into milliseconds. */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  if (Number.isNaN(date)) return undefined
+  return Math.max(0, date - Date.now())
+}
+
+/**
+ * Delay before retry number `retry` (1-based): exponential backoff from
+ * `baseDelay` capped at `maxDelay` and reduced by up to `jitter`, raised to
+ * any `Retry-After` capped at `maxRetryAfter`.
+ */
+function computeRetryDelay(
+  policy: Required<RetryPolicy>,
+  retry: number,
+  retryAfter: number | undefined,
+): number {
+  const backoff = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (retry - 1))
+  const jittered = backoff - backoff * Math.min(1, Math.max(0, policy.jitter)) * Math.random()
+  return Math.max(jittered, Math.min(policy.maxRetryAfter, retryAfter ?? 0))
+}
+
+/** localStorage key holding the time (epoch ms) until which every tab holds its deliveries. */
+const BACKOFF_KEY = '_spl_backoff'
+
+/** Milliseconds left of the backoff shared by the site's tabs, or 0 when there is none. */
+function getSharedBackoff(): number {
+  try {
+    const until = Number(localStorage.getItem(BACKOFF_KEY))
+    return until > 0 ? Math.max(0, until - Date.now()) : 0
+  } catch {
+    return 0
+  }
+}
+
+/** Hold deliveries in every tab for `delay` ms — never shortening a longer backoff already set. */
+function extendSharedBackoff(delay: number): void {
+  try {
+    const until = Date.now() + delay
+    if (until > Number(localStorage.getItem(BACKOFF_KEY))) localStorage.setItem(BACKOFF_KEY, String(until))
+  } catch { /* storage unavailable — this tab's own retry still backs off */ }
+}
+
+/** End the shared backoff after a successful delivery. */
+function clearSharedBackoff(): void {
+  try {
+    localStorage.removeItem(BACKOFF_KEY)
+  } catch { /* storage unavailable */ }
+}
+
+// ============================================================
+// Offline queue persistence (offlineQueue)
+//
+// Undeliverable batches are stored in IndexedDB, or localStorage
+// when IndexedDB is unavailable (older Safari private mode,
+// sandboxed iframes). All access is serialized through a single
+// promise chain so concurrent appends never overwrite each other.
+// ============================================================
+
+const OFFLINE_DB_NAME = 'sparklytics'
+const OFFLINE_STORE_NAME = 'queue'
+/** Key of the single IndexedDB record that holds the persisted events. */
+const OFFLINE_RECORD_KEY = 'pending'
+/** localStorage key used when IndexedDB cannot be opened. */
+const OFFLINE_STORAGE_KEY = '_spl_queue'
+
+const DEFAULT_OFFLINE_MAX_AGE = 24 * 60 * 60 * 1000
+const DEFAULT_OFFLINE_MAX_EVENTS = 100
+
+interface PersistedEvent {
+  /** Epoch ms at which the event was first persisted — checked against `maxAge`. */
+  ts: number
+  event: BatchEvent
+}
+
+/**
+ * When each replayed event was first persisted, so a replay that fails again
+ * stores it with its original timestamp and `maxAge` still expires it.
+ */
+const offlineTimestamps = new WeakMap<BatchEvent, number>()
+
+/** Normalise the `offlineQueue` prop. Returns null when persistence is disabled. */
+function resolveOfflineQueueOptions(
+  option: boolean | OfflineQueueOptions,
+): Required<OfflineQueueOptions> | null {
+  if (option === false) return null
+  const custom = option === true ? {} : option
+  return {
+    maxAge: custom.maxAge ?? DEFAULT_OFFLINE_MAX_AGE,
+    maxEvents: custom.maxEvents ?? DEFAULT_OFFLINE_MAX_EVENTS,
+  }
+}
+
+/** Open (and lazily create) the offline queue database. Resolves null on any failure. */
+function openOfflineDb(): Promise<IDBDatabase | null> {
+  return new Promise((resolve) => {
+    try {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null)
+        return
+      }
+      const request = indexedDB.open(OFFLINE_DB_NAME, 1)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(OFFLINE_STORE_NAME)
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => resolve(null)
+      request.onblocked = () => resolve(null)
+    } catch {
+      resolve(null)
+    }
+  })
+}
+
+async function readOfflineEvents(): Promise<PersistedEvent[]> {
+  const entries: PersistedEvent[] = []
+
+  const db = await openOfflineDb()
+  if (db) {
+    const stored = await new Promise<unknown>((resolve) => {
+      try {
+        const request = db
+          .transaction(OFFLINE_STORE_NAME, 'readonly')
+          .objectStore(OFFLINE_STORE_NAME)
+          .get(OFFLINE_RECORD_KEY)
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => resolve(undefined)
+      } catch {
+        resolve(undefined)
+      }
+    })
+    db.close()
+    if (Array.isArray(stored)) entries.push(...(stored as PersistedEvent[]))
+  }
+
+  // Always read the fallback too — an earlier write may have landed there
+  // while IndexedDB was temporarily unavailable.
+  try {
+    const raw = localStorage.getItem(OFFLINE_STORAGE_KEY)
+    if (raw) entries.push(...(JSON.parse(raw) as PersistedEvent[]))
+  } catch { /* storage unavailable or value corrupted */ }
+
+  return entries
+}
+
+async function writeOfflineEvents(entries: PersistedEvent[]): Promise<void> {
+  const db = await openOfflineDb()
+  if (db) {
+    const written = await new Promise<boolean>((resolve) => {
+      try {
+        const tx = db.transaction(OFFLINE_STORE_NAME, 'readwrite')
+        tx.objectStore(OFFLINE_STORE_NAME).put(entries, OFFLINE_RECORD_KEY)
+        tx.oncomplete = () => resolve(true)
+        tx.onerror = () => resolve(false)
+        tx.onabort = () => resolve(false)
+      } catch {
+        resolve(false)
+      }
+    })
+    db.close()
+    if (written) {
+      try { localStorage.removeItem(OFFLINE_STORAGE_KEY) } catch { /* storage unavailable */ }
+      return
+    }
+  }
+
+  try {
+    if (entries.length > 0) {
+      localStorage.setItem(OFFLINE_STORAGE_KEY, JSON.stringify(entries))
+    } else {
+      localStorage.removeItem(OFFLINE_STORAGE_KEY)
+    }
+  } catch { /* quota / private mode — events are lost */ }
+}
+
+/** Drop entries older than `maxAge`, then keep only the newest `maxEvents`. */
+function pruneOfflineEvents(
+  entries: PersistedEvent[],
+  options: Required<OfflineQueueOptions>,
+  now: number,
+): PersistedEvent[] {
+  const fresh = entries.filter((entry) => now - entry.ts <= options.maxAge)
+  return fresh.slice(Math.max(0, fresh.length - options.maxEvents))
+}
+
+let offlineStoreLock: Promise<unknown> = Promise.resolve()
+
+/** Run a read-modify-write against the offline store after any pending one completes. */
+function withOfflineStore<T>(fn: () => Promise<T>): Promise<T> {
+  const result = offlineStoreLock.then(fn)
+  offlineStoreLock = result.catch(() => undefined)
+  return result
+}
+
+/** Append events to the offline store, applying the age and size caps. */
+function persistOfflineEvents(
+  events: BatchEvent[],
+  options: Required<OfflineQueueOptions>,
+): Promise<void> {
+  return withOfflineStore(async () => {
+    const now = Date.now()
+    const existing = await readOfflineEvents()
+    const added = events.map((event) => ({ ts: offlineTimestamps.get(event) ?? now, event }))
+    await writeOfflineEvents(pruneOfflineEvents([...existing, ...added], options, now))
+  })
+}
+
+/** Remove and return every persisted event that is still within the caps. */
+function takeOfflineEvents(
+  options: Required<OfflineQueueOptions>,
+): Promise<BatchEvent[]> {
+  return withOfflineStore(async () => {
+    const entries = await readOfflineEvents()
+    if (entries.length === 0) return []
+    await writeOfflineEvents([])
+    return pruneOfflineEvents(entries, options, Date.now()).map((entry) => {
+      offlineTimestamps.set(entry.event, entry.ts)
+      return entry.event
+    })
+  })
+}
+
+// ============================================================
+// Core Web Vitals (trackWebVitals)
+//
+// Measured with PerformanceObserver directly — no runtime
+// dependency. Per-page state is reset on every soft navigation
+// so CLS and INP are attributed to the URL they occurred on.
+// ============================================================
+
+/** Core Web Vitals reported by `trackWebVitals`. */
+export type WebVitalName = 'LCP' | 'CLS' | 'INP' | 'FCP' | 'TTFB'
+
+/** Upper bounds for "good" and "needs-improvement", per web.dev. */
+const WEB_VITAL_THRESHOLDS: Record<WebVitalName, [number, number]> = {
+  LCP: [2500, 4000],
+  CLS: [0.1, 0.25],
+  INP: [200, 500],
+  FCP: [1800, 3000],
+  TTFB: [800, 1800],
+}
+
+/** navigation_type for pageviews detected client-side without a document load. */
+const SOFT_NAVIGATION = 'soft-navigation'
+
+function rateWebVital(
+  name: WebVitalName,
+  value: number,
+): 'good' | 'needs-improvement' | 'poor' {
+  const [good, poor] = WEB_VITAL_THRESHOLDS[name]
+  if (value <= good) return 'good'
+  if (value <= poor) return 'needs-improvement'
+  return 'poor'
+}
+
+interface WebVitalReport {
+  name: WebVitalName
+  value: number
+  /** URL the metric was measured on. */
+  url: string
+  navigationType: string
+  /** A new value for a metric already reported for the same page. */
+  update: boolean
+}
+
+interface WebVitalsMonitor {
+  /** Report the current page's metrics and start measuring `url` as a new page. */
+  navigate(url: string, navigationType?: string): void
+  /** Report the current page's metrics so far; later changes are sent as updates. */
+  report(): void
+  /** Report the current page's pending metrics (the page is being unloaded). */
+  finalize(): void
+  disconnect(): void
+}
+
+/** Navigation type of the document load, e.g. "navigate", "reload", "back-forward". */
+function getDocumentNavigationType(): string {
+  try {
+    const [entry] = performance.getEntriesByType('navigation') as PerformanceNavigationTiming[]
+    if (entry?.type) return entry.type.replace(/_/g, '-')
+  } catch { /* Navigation Timing unavailable */ }
+  return 'navigate'
+}
+
+/** Observe one entry type. Returns a disconnect function, or null when unsupported. */
+function observeEntries(
+  type: string,
+  callback: (entries: PerformanceEntry[]) => void,
+  options: Record<string, unknown> = {},
+): (() => void) | null {
+  try {
+    if (typeof PerformanceObserver === 'undefined') return null
+    const observer = new PerformanceObserver((list) => callback(list.getEntries()))
+    observer.observe({ type, buffered: true, ...options } as PerformanceObserverInit)
+    return () => observer.disconnect()
+  } catch {
+    return null
+  }
+}
+
+function createWebVitalsMonitor(
+  initialUrl: string,
+  report: (metric: WebVitalReport) => void,
+): WebVitalsMonitor {
+  const documentNavigationType = getDocumentNavigationType()
+
+  interface PageState {
+    url: string
+    navigationType: string
+    /** performance.now() when the page started — earlier entries belong to the previous page. */
+    start: number
+    lcp?: number
+    /** Largest layout-shift session window so far, and the open window. */
+    cls: number
+    windowValue: number
+    windowStart: number
+    windowEnd: number
+    /** Longest interaction so far (INP ≈ worst interaction below 50 interactions). */
+    inp?: number
+    /** Values already reported, as sent — only changes are reported again. */
+    reported: Partial<Record<WebVitalName, number>>
+    done: boolean
+  }
+
+  const createPage = (url: string, navigationType: string, start: number): PageState => ({
+    url,
+    navigationType,
+    start,
+    cls: 0,
+    windowValue: 0,
+    windowStart: 0,
+    windowEnd: 0,
+    reported: {},
+    done: false,
+  })
+
+  const initialPage = createPage(initialUrl, documentNavigationType, 0)
+  let page = initialPage
+
+  const emit = (target: PageState, name: WebVitalName, value: number) => {
+    const rounded = name === 'CLS' ? Math.round(value * 10000) / 10000 : Math.round(value)
+    const previous = target.reported[name]
+    if (previous === rounded) return
+    target.reported[name] = rounded
+    report({
+      name,
+      value: rounded,
+      url: target.url,
+      navigationType: target.navigationType,
+      update: previous !== undefined,
+    })
+  }
+
+  const reportPage = (target: PageState) => {
+    if (target.done) return
+    if (target.lcp !== undefined) emit(target, 'LCP', target.lcp)
+    emit(target, 'CLS', target.cls)
+    if (target.inp !== undefined) emit(target, 'INP', target.inp)
+  }
+
+  const finalizePage = (target: PageState) => {
+    reportPage(target)
+    target.done = true
+  }
+
+  const disconnectors: ((() => void) | null)[] = []
+
+  // Load metrics — attributed to the document's own URL only
+  disconnectors.push(observeEntries('navigation', (entries) => {
+    const entry = entries[0] as PerformanceNavigationTiming | undefined
+    if (entry && entry.responseStart > 0) emit(initialPage, 'TTFB', entry.responseStart)
+  }))
+  disconnectors.push(observeEntries('paint', (entries) => {
+    const fcp = entries.find((entry) => entry.name === 'first-contentful-paint')
+    if (fcp) emit(initialPage, 'FCP', fcp.startTime)
+  }))
+  disconnectors.push(observeEntries('largest-contentful-paint', (entries) => {
+    // Browsers stop emitting LCP after the first input or once the page was
+    // hidden; the last entry wins
+    const last = entries[entries.length - 1]
+    if (last && !initialPage.done && initialPage.reported.LCP === undefined) initialPage.lcp = last.startTime
+  }))
+
+  // Per-route metrics
+  disconnectors.push(observeEntries('layout-shift', (entries) => {
+    for (const entry of entries as (PerformanceEntry & { value: number; hadRecentInput: boolean })[]) {
+      if (entry.hadRecentInput || entry.startTime < page.start || page.done) continue
+      // Session windows: shifts < 1s apart, at most 5s long
+      if (
+        page.windowValue > 0 &&
+        entry.startTime - page.windowEnd < 1000 &&
+        entry.startTime - page.windowStart < 5000
+      ) {
+        page.windowValue += entry.value
+      } else {
+        page.windowValue = entry.value
+        page.windowStart = entry.startTime
+      }
+      page.windowEnd = entry.startTime
+      page.cls = Math.max(page.cls, page.windowValue)
+    }
+  }))
+  disconnectors.push(observeEntries('event', (entries) => {
+    for (const entry of entries as (PerformanceEntry & { interactionId?: number })[]) {
+      if (!entry.interactionId || entry.startTime < page.start || page.done) continue
+      page.inp = Math.max(page.inp ?? 0, entry.duration)
+    }
+  }, { durationThreshold: 40 }))
+
+  return {
+    navigate: (url, navigationType = SOFT_NAVIGATION) => {
+      finalizePage(page)
+      page = createPage(url, navigationType, performance.now())
+    },
+    report: () => reportPage(page),
+    finalize: () => finalizePage(page),
+    disconnect: () => disconnectors.forEach((disconnect) => disconnect?.()),
+  }
+}
+
+// ============================================================
+// JavaScript error tracking (trackErrors)
+// ============================================================
+
+/** Longest error message sent, in characters. */
+const MAX_ERROR_MESSAGE_LENGTH = 500
+
+/** First `file:line:column` location in a stack trace. */
+const STACK_LOCATION = /((?:https?|file):\/\/[^\s()]+):(\d+):(\d+)/
+
+/** 32-bit FNV-1a hash as 8 hex chars — a stable grouping key, not a security hash. */
+function hashString(value: string): string {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0')
+}
+
+/**
+ * Build the `"js_error"` payload for a window `error` or `unhandledrejection`
+ * event. Returns null for events that carry no error information.
+ */
+function describeError(event: Event): Record<string, unknown> | null {
+  let kind: 'error' | 'unhandledrejection'
+  let message: string
+  let error: unknown
+  let source: string | undefined
+  let line: number | undefined
+  let column: number | undefined
+
+  if (event.type === 'unhandledrejection') {
+    kind = 'unhandledrejection'
+    error = (event as PromiseRejectionEvent).reason
+    if (error instanceof Error) message = `${error.name}: ${error.message}`
+    else if (typeof error === 'string') message = error
+    else {
+      try { message = JSON.stringify(error) ?? String(error) } catch { message = String(error) }
+    }
+  } else {
+    const errorEvent = event as ErrorEvent
+    kind = 'error'
+    error = errorEvent.error
+    message = errorEvent.message || (error instanceof Error ? `${error.name}: ${error.message}` : '')
+    source = errorEvent.filename || undefined
+    line = errorEvent.lineno || undefined
+    column = errorEvent.colno || undefined
+  }
+  if (!message) return null
+
+  // Rejections (and some cross-browser error events) only carry a location in the stack
+  if (!source && error instanceof Error && error.stack) {
+    const match = STACK_LOCATION.exec(error.stack)
+    if (match) {
+      source = match[1]
+      line = Number(match[2])
+      column = Number(match[3])
+    }
+  }
+
+  message = message.slice(0, MAX_ERROR_MESSAGE_LENGTH)
+  return {
+    message,
+    ...(source ? { source } : {}),
+    ...(line ? { line } : {}),
+    ...(column ? { column } : {}),
+    fingerprint: hashString(`${kind}|${message}|${source ?? ''}|${line ?? ''}|${column ?? ''}`),
+    kind,
+  }
+}
+
+// ============================================================
+// Form analytics (trackForms)
+// ============================================================
+
+/** Most field names kept per form, so a huge form cannot bloat its events. */
+const MAX_TRACKED_FIELDS = 50
+
+/** Progress through one form since its first focused field (`trackForms: 'extended'`). */
+interface FormProgress {
+  url: string
+  startedAt: number
+  fields: string[]
+  lastField?: string
+  invalidFields: string[]
+  /** `form_abandon` was sent when the tab was hidden; it is not sent again. */
+  abandoned?: boolean
+}
+
+/** `{ form_id?, form_name? }` from the form element's attributes. */
+function getFormIdentity(form: HTMLFormElement): Record<string, unknown> {
+  const data: Record<string, unknown> = {}
+  if (form.id) data['form_id'] = form.id
+  if (form.name) data['form_name'] = form.name
+  return data
+}
+
+/**
+ * The form field behind an event target, or null for anything that is not a
+ * user-editable field inside a `<form>`. `name` falls back to the field's `id`.
+ */
+function getFormField(
+  target: EventTarget | null,
+): { form: HTMLFormElement; field: HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement; name?: string } | null {
+  const field = target as HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement | null
+  if (!field || !['INPUT', 'SELECT', 'TEXTAREA'].includes(field.tagName) || !field.form) return null
+  if (field.tagName === 'INPUT' && ['hidden', 'submit', 'button', 'reset', 'image'].includes((field as HTMLInputElement).type)) {
+    return null
+  }
+  const name = field.getAttribute('name') || field.id || undefined
+  return { form: field.form, field, name }
+}
+
+/** First failing `ValidityState` flag, e.g. `"valueMissing"` or `"typeMismatch"`. */
+function getValidityReason(field: { validity?: ValidityState }): string | undefined {
+  const validity = field.validity
+  if (!validity) return undefined
+  const reasons = [
+    'valueMissing', 'typeMismatch', 'patternMismatch', 'tooShort', 'tooLong',
+    'rangeUnderflow', 'rangeOverflow', 'stepMismatch', 'badInput', 'customError',
+  ] as const
+  return reasons.find((reason) => validity[reason])
+}
+
+// ============================================================
+// Site search (trackSearch)
+// ============================================================
+
+/** Query parameters watched by `trackSearch={true}`. */
+const DEFAULT_SEARCH_PARAMS = ['q', 'query', 's']
+
+/** Longest search term sent, in characters. */
+const MAX_SEARCH_TERM_LENGTH = 100
+
+/** How long a site_search event waits for a `resultCount` promise before it is sent without a count. */
+const SEARCH_RESULT_COUNT_TIMEOUT = 10_000
+
+function resolveSearchOptions(
+  trackSearch: boolean | string[] | SearchTrackingOptions,
+): SearchTrackingOptions & { params: string[] } | null {
+  if (trackSearch === false) return null
+  if (trackSearch === true) return { params: DEFAULT_SEARCH_PARAMS }
+  if (Array.isArray(trackSearch)) return { params: trackSearch }
+  return { ...trackSearch, params: trackSearch.params ?? DEFAULT_SEARCH_PARAMS }
+}
+
+/** Search term and category in `search` (a `location.search` string), or null when there is no term. */
+function getSearchInfo(
+  search: string,
+  options: SearchTrackingOptions & { params: string[] },
+): { term: string; category?: string } | null {
+  const params = new URLSearchParams(search)
+  let term = ''
+  for (const name of options.params) {
+    term = (params.get(name) ?? '').trim().replace(/\s+/g, ' ').toLowerCase().slice(0, MAX_SEARCH_TERM_LENGTH)
+    if (term) break
+  }
+  if (!term) return null
+
+  const category = options.categoryParam ? params.get(options.categoryParam)?.trim() : undefined
+  return { term, ...(category ? { category } : {}) }
+}
+
+// ============================================================
+// Click frustration (trackFrustration)
+// ============================================================
+
+/** Elements that look clickable — a click on one is expected to do something. */
+const INTERACTIVE_SELECTOR =
+  'a[href], button, input[type="button"], input[type="submit"], input[type="reset"], ' +
+  '[role="button"], [role="link"], [role="menuitem"], [role="tab"], [onclick]'
+
+/** Visible text of an element — trimmed, whitespace collapsed, max 100 chars. */
+function getElementText(element: Element): string | undefined {
+  return element.textContent?.trim().replace(/\s+/g, ' ').slice(0, 100) || undefined
+}
+
+/**
+ * Whether an id or class name is worth putting in a selector. Rejects names
+ * that change between builds: CSS-in-JS prefixes, CSS Modules hashes and
+ * anything with a long digit run.
+ */
+function isStableToken(token: string): boolean {
+  return /^[a-z_-][\w-]*$/i.test(token) && !/\d{3,}|^(css|sc|jsx|emotion)-|__[a-z0-9]{5,}$/i.test(token)
+}
+
+/**
+ * CSS selector for `element` that survives rebuilds: stops at the nearest
+ * ancestor with a stable id, prefers `data-testid`, keeps at most two stable
+ * classes per step and disambiguates siblings with `:nth-of-type()`.
+ */
+function getStableSelector(element: Element): string {
+  const parts: string[] = []
+  let current: Element | null = element
+  while (current && current !== document.documentElement && parts.length < 5) {
+    if (current.id && isStableToken(current.id)) {
+      parts.unshift(`#${current.id}`)
+      break
+    }
+
+    let part = current.tagName.toLowerCase()
+    const testId = current.getAttribute('data-testid')
+    if (testId) {
+      part += `[data-testid="${testId.replace(/["\\]/g, '\\$&')}"]`
+    } else {
+      part += Array.from(current.classList).filter(isStableToken).slice(0, 2).map((c) => `.${c}`).join('')
+      const tagName = current.tagName
+      const siblings = current.parentElement
+        ? Array.from(current.parentElement.children).filter((child) => child.tagName === tagName)
+        : []
+      if (siblings.length > 1) part += `:nth-of-type(${siblings.indexOf(current) + 1})`
+    }
+    parts.unshift(part)
+    current = current.parentElement
+  }
+  return parts.join(' > ')
+}
+
+// ============================================================
+// Outbound link delivery (trackLinks / TrackedLink)
+// ============================================================
+
+/** The parts of a native or React click event needed to reason about navigation. */
+type NavigationClick = Pick<
+  MouseEvent,
+  'button' | 'metaKey' | 'ctrlKey' | 'shiftKey' | 'altKey' | 'defaultPrevented' | 'preventDefault'
+>
+
+/** Whether a click on `anchor` will navigate the current tab away from the page. */
+function navigatesCurrentTab(click: NavigationClick, anchor: HTMLAnchorElement | null): boolean {
+  if (click.defaultPrevented || click.button !== 0) return false
+  if (click.metaKey || click.ctrlKey || click.shiftKey || click.altKey) return false
+  // Downloads keep the page open, so there is nothing to wait for
+  if (anchor?.hasAttribute('download')) return false
+  const target = anchor?.getAttribute('target')
+  return !target || target === '_self'
+}
+
+/** File extensions tracked by `trackDownloads={true}`. */
+const DEFAULT_DOWNLOAD_EXTENSIONS = [
+  'pdf', 'csv', 'txt', 'rtf', 'doc', 'docx', 'xls', 'xlsx', 'ppt', 'pptx', 'key', 'numbers', 'pages',
+  'zip', 'rar', '7z', 'gz', 'tgz', 'tar', 'dmg', 'pkg', 'exe', 'msi', 'deb', 'rpm', 'apk', 'iso',
+  'mp3', 'wav', 'mp4', 'mov', 'avi', 'epub',
+]
+
+/**
+ * Describe a download link, or return null when `anchor` is not one.
+ * `extensions` are matched case-insensitively against the end of the URL path.
+ */
+function getDownloadInfo(
+  anchor: HTMLAnchorElement,
+  extensions: string[],
+): { file_name: string; extension?: string; same_origin: boolean } | null {
+  let url: URL
+  try {
+    url = new URL(anchor.getAttribute('href') ?? '', window.location.href)
+  } catch {
+    return null
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return null
+
+  const path = url.pathname.toLowerCase()
+  const hasDownloadAttr = anchor.hasAttribute('download')
+  if (!hasDownloadAttr && !extensions.some((ext) => path.endsWith(`.${ext.toLowerCase().replace(/^\./, '')}`))) {
+    return null
+  }
+
+  let pathName = url.pathname.split('/').pop() ?? ''
+  try { pathName = decodeURIComponent(pathName) } catch { /* keep the raw segment */ }
+  const fileName = anchor.getAttribute('download') || pathName
+  const dot = fileName.lastIndexOf('.')
+  const extension = dot > 0 ? fileName.slice(dot + 1).toLowerCase() : undefined
+
+  return {
+    file_name: fileName.slice(0, 200),
+    ...(extension ? { extension } : {}),
+    same_origin: url.origin === window.location.origin,
+  }
+}
+
+/** Whether `href` points to a different origin than the current page. */
+function isOffOrigin(href: string): boolean {
+  try {
+    return new URL(href, window.location.href).origin !== window.location.origin
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Send queued events immediately because a click is about to leave the page.
+ * Provided by SparklyticsProvider to TrackedLink; not part of the public hook.
+ */
+type OutboundDelivery = (
+  click: NavigationClick,
+  anchor: HTMLAnchorElement | null,
+  href: string,
+) => void
+
+const OutboundContext = createContext<OutboundDelivery>(() => {})
+
+/**
+ * The provider's pageview listeners, so impression trackers can reset once per
+ * page view. Outside a provider nothing ever notifies this set.
+ */
+const PageviewListenersContext = createContext<Set<(event: BatchEvent) => void>>(new Set())
+
+/** One mounted `<PageProperties>`; `data` and `title` are kept current on every render. */
+interface PagePropertiesEntry {
+  data?: Record<string, unknown>
+  title?: string
+}
+
+/**
+ * The `<PageProperties>` currently mounted under the provider, in mount order.
+ * Outside a provider entries are registered but never read.
+ */
+const PagePropertiesContext = createContext<Set<PagePropertiesEntry>>(new Set())
+
+// ============================================================
+// Context — default is a no-op (safe for SSR / Server Components)
+// ============================================================
+
+const SparklyticsContext = createContext<SparklyticsHook>({
+  track: () => {},
+  pageview: () => {},
+  identify: () => {},
+  reset: () => {},
+  setConsent: () => {},
+  register: () => {},
+  unregister: () => {},
+})
+
+// ============================================================
+// Provider
+// ============================================================
+
+export function SparklyticsProvider({
+  websiteId: websiteIdProp,
+  host: hostProp,
+  respectDnt = true,
+  disabled = false,
+  trackLinks = false,
+  outboundDelay = 0,
+  trackScrollDepth = false,
+  trackDownloads = false,
+  trackForms = false,
+  offlineQueue = false,
+  retry,
+  requireConsent = false,
+  trackWebVitals = false,
+  trackSessions = false,
+  trackEngagement = false,
+  trackErrors = false,
+  trackFrustration = false,
+  trackSearch = false,
+  beforeSend,
+  redact,
+  captureUrl: captureUrlOptions,
+  trackTitle = false,
+  campaignParams = DEFAULT_CAMPAIGN_PARAMS,
+  attribution = false,
+  crossDomain,
+  children,
+}: SparklyticsProviderProps) {
+  // Resolve from env vars if not provided as props.
+  // process.env.NEXT_PUBLIC_* is inlined by the Next.js bundler at build time.
+  const websiteId =
+    websiteIdProp ??
+    (typeof process !== 'undefined'
+      ? process.env.NEXT_PUBLIC_SPARKLYTICS_WEBSITE_ID ?? ''
+      : '')
+  const host =
+    hostProp ??
+    (typeof process !== 'undefined'
+      ? process.env.NEXT_PUBLIC_SPARKLYTICS_HOST ?? ''
+      : '')
+
+  // Validate websiteId at runtime and fail gracefully
+  if (!websiteId) {
+    if (typeof console !== 'undefined') {
+      console.error(
+        '[Sparklytics] websiteId is required. ' +
+          'Pass it as a prop or set NEXT_PUBLIC_SPARKLYTICS_WEBSITE_ID. ' +
+          'No events will be sent.',
+      )
+    }
+  }
+
+  // Trim trailing slash so "https://example.com/" and "https://example.com" both work
+  const collectUrl = host
+    ? `${host.replace(/\/$/, '')}/api/collect`
+    : '/api/collect'
+
+  const queueRef = useRef<BatchEvent[]>([])
+  const flushTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  // Offline replay postponed until the shared backoff ends
+  const replayTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const blockedRef = useRef<boolean>(false)
+  // Keep collectUrl accessible inside stable refs without stale closures
+  const collectUrlRef = useRef(collectUrl)
   collectUrlRef.current = collectUrl
+  // Resolved offlineQueue caps (null when disabled), read by flush() at send time
+  const offlineRef = useRef(resolveOfflineQueueOptions(offlineQueue))
+  offlineRef.current = resolveOfflineQueueOptions(offlineQueue)
+  const retryPolicyRef = useRef<Required<RetryPolicy>>(DEFAULT_RETRY_POLICY)
+  retryPolicyRef.current = { ...DEFAULT_RETRY_POLICY, ...retry }
+  // Events raised while consent is pending (requireConsent only)
+  const heldRef = useRef<BatchEvent[]>([])
+  // First and latest attribution touch seen while consent is pending, stored on grant
+  const pendingTouchesRef = useRef<AttributionTouch[]>([])
+  // Visitor ID carried over by crossDomain while consent is pending, adopted on grant
+  const pendingVisitorRef = useRef<string | null>(null)
+  const requireConsentRef = useRef(requireConsent)
+  requireConsentRef.current = requireConsent
+  // Outgoing event pipeline, read by deliver() for every event
+  const beforeSendRef = useRef(beforeSend)
+  beforeSendRef.current = beforeSend
+  const redactRef = useRef(redact)
+  redactRef.current = redact
+  // Query parameters and hash kept in recorded URLs, read whenever a URL is recorded
+  const captureUrlRef = useRef(captureUrlOptions)
+  captureUrlRef.current = captureUrlOptions
+  const trackTitleRef = useRef(trackTitle)
+  trackTitleRef.current = trackTitle
+  const campaignParamsRef = useRef(campaignParams)
+  campaignParamsRef.current = campaignParams
+  // Resolved attribution options (null when off), read when touches are recorded or attached
+  const attributionRef = useRef(resolveAttributionOptions(attribution))
+  attributionRef.current = resolveAttributionOptions(attribution)
+  // Domains whose links carry the visitor token, read at click time
+  const crossDomainRef = useRef(crossDomain)
+  crossDomainRef.current = crossDomain
+  const crossDomainEnabled = !!crossDomain && crossDomain.length > 0
+  // Mounted <PageProperties>, attached to every event as page_data
+  const pagePropertiesRef = useRef<Set<PagePropertiesEntry>>(new Set())
+  // page_data of the current page, taken with its pageview — sent on EXIT_EVENTS
+  const pageDataSnapshotRef = useRef<Record<string, unknown> | undefined>(undefined)
+  // Navigation pageviews waiting for the new page to render; admitted early on unload
+  const renderingRef = useRef<Set<() => void>>(new Set())
+  // Notified for every pageview accepted by enqueue() — the single point where
+  // all route detection paths (pushState, popstate, routeChangeComplete,
+  // AppRouterTracker, manual pageview()) converge.
+  const pageviewListenersRef = useRef<Set<(event: BatchEvent) => void>>(new Set())
+  // Route pattern for the URL AppRouterTracker last rendered (App Router only)
+  const routeRef = useRef<RouteInfo | null>(null)
+  // Session inactivity timeout (null when trackSessions is off)
+  const sessionTimeoutRef = useRef<number | null>(null)
+  sessionTimeoutRef.current =
+    trackSessions === false
+      ? null
+      : trackSessions === true
+        ? DEFAULT_SESSION_TIMEOUT
+        : trackSessions.timeout ?? DEFAULT_SESSION_TIMEOUT
+  // Batches waiting for their retry, with the retry's timer — taken over by the
+  // offline store when the page is hidden so they are not lost
+  const retryingRef = useRef<Map<BatchEvent[], ReturnType<typeof setTimeout>>>(new Map())
   // Dedup tracker: prevents double-pageview when both history.pushState monkey-patch
   // and next/router routeChangeComplete fire for the same Pages Router navigation.
   // A 100ms window is narrow enough to catch near-simultaneous fires and wide enough
   // not to suppress genuine rapid navigations to different URLs.
+  // Its URL is also the in-app referrer of the next pageview.
   const lastPageviewRef = useRef<{ url: string; ts: number } | null>(null)
 
   // Determine tracking eligibility (SSR-safe)
@@ -451,8 +2565,31 @@ export function SparklyticsProvider({
     }
     if (blockedRef.current || queueRef.current.length === 0) return
 
+    // Another tab (or an earlier batch) is backing off — hold the queue until it
+    // ends, unless the page may be going away and nothing else would keep it
+    const backoff = getSharedBackoff()
+    if (backoff > 0 && (offlineRef.current || document.visibilityState !== 'hidden')) {
+      if (offlineRef.current) {
+        void persistOfflineEvents(queueRef.current.splice(0), offlineRef.current)
+        scheduleReplay(backoff)
+      } else {
+        flushTimerRef.current = setTimeout(() => { void flush.current() }, backoff)
+      }
+      return
+    }
+
     const batch = queueRef.current.splice(0)
 
+    // Known to be offline — don't burn the retry, keep the batch for replay
+    if (
+      offlineRef.current &&
+      typeof navigator !== 'undefined' &&
+      navigator.onLine === false
+    ) {
+      void persistOfflineEvents(batch, offlineRef.current)
+      return
+    }
+
     const send = async () => {
       const body = JSON.stringify(batch)
 
@@ -475,33 +2612,145 @@ export function SparklyticsProvider({
         keepalive: true,
       })
 
-      // Treat HTTP errors (4xx, 5xx) the same as network errors so the
-      // retry logic below catches transient server failures (e.g. 429, 503).
+      // Surface HTTP errors with their status so the retry policy below can
+      // tell transient failures (429, 503) from permanent ones (400, 403).
       if (!response.ok) {
-        throw new Error(`[Sparklytics] collect endpoint returned ${response.status}`)
+        throw new CollectResponseError(
+          response.status,
+          response.status === 429 || response.status === 503
+            ? parseRetryAfter(response.headers.get('Retry-After'))
+            : undefined,
+        )
       }
     }
 
-    try {
-      await send()
-    } catch {
-      // Retry once after 2 seconds, then drop — events are fire-and-forget.
-      // The queue was already spliced above so failed events are not re-queued;
-      // subsequent track() calls continue to work normally.
-      setTimeout(async () => {
-        try {
-          await send()
-        } catch {
-          // Drop silently — never throw on the host page
+    // Deliver with retries per the retry policy, then drop (or persist, with
+    // offlineQueue). The queue was already spliced above so failed events are
+    // not re-queued; subsequent track() calls continue to work normally.
+    const attempt = async (attemptNumber: number): Promise<void> => {
+      try {
+        await send()
+        retryingRef.current.delete(batch)
+        clearSharedBackoff()
+      } catch (err) {
+        // Never throw on the host page
+        const policy = retryPolicyRef.current
+        const retryable =
+          !(err instanceof CollectResponseError) ||
+          policy.retryableStatuses.includes(err.status)
+
+        if (retryable && attemptNumber < policy.maxAttempts) {
+          const retryAfter = err instanceof CollectResponseError ? err.retryAfter : undefined
+          const delay = computeRetryDelay(policy, attemptNumber, retryAfter)
+          extendSharedBackoff(delay)
+          const retry = () => {
+            // Another tab may have been asked to wait longer since
+            const backoff = getSharedBackoff()
+            if (backoff > 0) {
+              retryingRef.current.set(batch, setTimeout(retry, backoff))
+              return
+            }
+            void attempt(attemptNumber + 1)
+          }
+          retryingRef.current.set(batch, setTimeout(retry, delay))
+          return
+        }
+
+        retryingRef.current.delete(batch)
+        // Permanent errors are never persisted — replaying them would fail again
+        if (retryable && offlineRef.current) {
+          void persistOfflineEvents(batch, offlineRef.current)
         }
-      }, 2000)
+      }
+    }
+
+    await attempt(1)
+  })
+
+  // Move persisted events back into the queue and send them.
+  // Events were already enriched when first enqueued, so they bypass enqueue().
+  const replayOffline = useRef(async () => {
+    const options = offlineRef.current
+    if (!options || blockedRef.current) return
+    const backoff = getSharedBackoff()
+    if (backoff > 0) {
+      scheduleReplay(backoff)
+      return
     }
+    const events = await takeOfflineEvents(options)
+    if (events.length === 0) return
+    queueRef.current.push(...events)
+    void flush.current()
   })
 
-  // Enqueue an event and schedule a flush
-  const enqueue = (event: BatchEvent) => {
+  // Replay the offline store once the shared backoff is over
+  const scheduleReplay = (delay: number) => {
+    if (replayTimerRef.current) clearTimeout(replayTimerRef.current)
+    replayTimerRef.current = setTimeout(() => {
+      replayTimerRef.current = null
+      void replayOffline.current()
+    }, delay)
+  }
+
+  // Page properties of the mounted <PageProperties>, later mounts winning on conflicts
+  const getPageData = (): Record<string, unknown> | undefined => {
+    const entries = Array.from(pagePropertiesRef.current).filter((entry) => entry.data)
+    if (entries.length === 0) return undefined
+    return Object.assign({}, ...entries.map((entry) => entry.data)) as Record<string, unknown>
+  }
+
+  // Title of the most recently mounted <PageProperties> that sets one, else document.title
+  const getPageTitle = (): string => {
+    const entries = Array.from(pagePropertiesRef.current)
+    const title = entries.reverse().find((entry) => entry.title !== undefined)?.title ?? document.title
+    return title.trim().slice(0, MAX_TITLE_LENGTH)
+  }
+
+  // Attach the page title (pageviews) and page properties: as they are right
+  // now, or as they were when the page started for exit events
+  const withPageContext = (event: BatchEvent): BatchEvent => {
+    const isExit = event.type === 'event' && EXIT_EVENTS.has(event.event_name ?? '')
+    const pageData = isExit ? pageDataSnapshotRef.current : getPageData()
+    const title =
+      event.type === 'pageview' && trackTitleRef.current && event.title === undefined
+        ? getPageTitle()
+        : undefined
+    const merged = pageData || event.page_data ? { ...pageData, ...event.page_data } : undefined
+    if (event.type === 'pageview') pageDataSnapshotRef.current = merged
+    return {
+      ...event,
+      ...(title ? { title } : {}),
+      ...(merged ? { page_data: merged } : {}),
+    }
+  }
+
+  // Attach the stored first and last touches to the events `attribution` covers
+  const withAttribution = (event: BatchEvent): BatchEvent => {
+    const options = attributionRef.current
+    if (!options) return event
+    const covered =
+      options.events === 'all' ||
+      (event.type === 'event' && options.events.includes(event.event_name ?? ''))
+    return covered ? { ...event, ...getAttributionFields(options.lookbackMs) } : event
+  }
+
+  // Enqueue an event and schedule a flush. With `afterRender`, the pageview is
+  // admitted on the next task, once the new page has rendered — its title and
+  // <PageProperties> are not in place yet when the navigation is detected.
+  const enqueue = (event: BatchEvent, afterRender = false) => {
     if (blockedRef.current) return
 
+    // Pages Router paths pass the route themselves; App Router pageviews take it
+    // from AppRouterTracker when it has rendered the same URL.
+    const routeInfo = routeRef.current
+    if (event.type === 'pageview' && event.route === undefined && routeInfo?.url === getUrlPath(event.url)) {
+      event = {
+        ...event,
+        ...(routeInfo.route ? { route: routeInfo.route } : {}),
+        ...(routeInfo.intercepted ? { intercepted: true } : {}),
+      }
+    }
+
     // Dedup: skip pageview if same URL was enqueued within the last 100ms.
     // Prevents double-pageview when history.pushState monkey-patch and
     // next/router routeChangeComplete both fire for the same Pages Router navigation.
@@ -514,16 +2763,88 @@ export function SparklyticsProvider({
         return
       }
       lastPageviewRef.current = { url: event.url, ts: now }
+      if (afterRender) {
+        const pageview = event
+        const admitRendered = () => {
+          clearTimeout(timer)
+          renderingRef.current.delete(admitRendered)
+          if (!blockedRef.current) admit(withPageContext(pageview))
+        }
+        // Scheduled before the listeners run, so it is admitted ahead of
+        // anything they defer to a later task
+        const timer = setTimeout(admitRendered, 0)
+        renderingRef.current.add(admitRendered)
+      }
+      pageviewListenersRef.current.forEach((listener) => listener(event))
+      if (afterRender) return
+    }
+
+    admit(withPageContext(withSuperProperties(event)))
+  }
+
+  // Apply the consent decision to an enqueued event, then deliver it. Touches are
+  // attached here, once tracking is allowed: held events get them on release.
+  const admit = (event: BatchEvent) => {
+    if (requireConsentRef.current) {
+      const consent = getStoredConsent()
+      if (!consent) {
+        // Pending — hold until setConsent() decides (oldest dropped past the cap)
+        heldRef.current.push(event)
+        if (heldRef.current.length > MAX_HELD_EVENTS) heldRef.current.shift()
+        return
+      }
+      if (!consent.analytics) return
+      deliver(applyConsent(withAttribution(event), consent))
+      return
     }
 
+    deliver(withAttribution(event))
+  }
+
+  // Add an outgoing event to the batch queue unless beforeSend drops it
+  const pushOutgoing = (event: BatchEvent) => {
+    const prepared = prepareOutgoing(event, beforeSendRef.current, redactRef.current)
+    if (prepared) queueRef.current.push(prepared)
+  }
+
+  // Enrich an accepted event and add it to the batch queue
+  const deliver = (event: BatchEvent) => {
     // Enrich with the identified visitor ID, if one has been set via identify().
     const visitorId =
       typeof window !== 'undefined' ? getIdentifiedVisitor() : undefined
-    const enriched: BatchEvent = visitorId
-      ? { ...event, visitor_id: visitorId }
-      : event
+    // Anonymous events carry the ID the alias's previous_id later refers to
+    const anonymousId =
+      !visitorId && typeof window !== 'undefined' ? getAnonymousId() : undefined
+    const identity: Pick<BatchEvent, 'visitor_id' | 'anonymous_id'> = visitorId
+      ? { visitor_id: visitorId }
+      : anonymousId ? { anonymous_id: anonymousId } : {}
+    let enriched: BatchEvent = { ...event, ...identity }
+
+    // Attach the session; a new session is announced before its first event.
+    if (sessionTimeoutRef.current !== null && typeof window !== 'undefined') {
+      const session = touchSession(
+        sessionTimeoutRef.current,
+        event.type === 'pageview' ? getCampaignSignature(event) : undefined,
+      )
+      enriched = { ...enriched, session_id: session.id }
+      if (session.started) {
+        const landingUtms: Record<string, unknown> = { ...enriched.campaign_params }
+        for (const key of UTM_KEYS) {
+          if (enriched[key]) landingUtms[key] = enriched[key]
+        }
+        pushOutgoing(withSuperProperties({
+          website_id: enriched.website_id,
+          type: 'event',
+          url: enriched.url,
+          event_name: 'session_start',
+          event_data: { entry_page: enriched.url, ...landingUtms },
+          session_id: session.id,
+          ...identity,
+        }))
+      }
+    }
 
-    queueRef.current.push(enriched)
+    pushOutgoing(enriched)
 
     // Flush immediately if batch reaches 10 events
     if (queueRef.current.length >= 10) {
@@ -539,127 +2860,733 @@ export function SparklyticsProvider({
     }
   }
 
-  // Track pageview on mount; wire beforeunload and SPA navigation
+  // Flush an outbound / download click right away. sendBeacon survives the
+  // navigation; without it, optionally hold the navigation (bounded by
+  // outboundDelay) until the fetch settles.
+  const outboundDelayRef = useRef(outboundDelay)
+  outboundDelayRef.current = outboundDelay
+  const deliverOutbound: OutboundDelivery = (click, anchor, href) => {
+    const delivery = flush.current()
+    const hasBeacon = typeof navigator !== 'undefined' && !!navigator.sendBeacon
+    if (hasBeacon || outboundDelayRef.current <= 0 || !navigatesCurrentTab(click, anchor)) return
+
+    click.preventDefault()
+    let navigated = false
+    const navigate = () => {
+      if (navigated) return
+      navigated = true
+      // Read now: crossDomain decorates the anchor after this click handler ran
+      window.location.href = anchor?.href || href
+    }
+    void delivery.finally(navigate)
+    setTimeout(navigate, outboundDelayRef.current)
+  }
+
+  // Pageview metadata limited to the consent categories granted so far
+  const pageviewExtras = () =>
+    getPageviewExtras(requireConsentRef.current ? getStoredConsent() : ALL_CONSENT, campaignParamsRef.current)
+
+  // The current page's URL as recorded (path, plus what captureUrl keeps)
+  const locationUrl = () => getPageUrl(captureUrlRef.current)
+
+  // Referrer of a pageview: document.referrer (the external referrer of the hard load)
+  // until the first pageview is recorded, then the previous in-app URL — otherwise
+  // every page of the visit would look like it came from the landing referrer.
+  const pageviewReferrer = (): string | undefined => {
+    const previous = lastPageviewRef.current?.url
+    if (previous === undefined) {
+      return typeof document !== 'undefined' ? document.referrer || undefined : undefined
+    }
+    return previous.startsWith('/') ? window.location.origin + previous : previous
+  }
+
+  // Pageview for a SPA navigation to `url` — skipped when only the query string
+  // or hash changed and captureUrl does not track param changes.
+  const navigationPageview = (url: string, route?: string) => {
+    if (isParamOnlyChange(url, lastPageviewRef.current?.url, captureUrlRef.current)) return
+    enqueue({
+      website_id: websiteId,
+      type: 'pageview',
+      url,
+      referrer: pageviewReferrer(),
+      ...(route ? { route } : {}),
+      ...pageviewExtras(),
+    }, true)
+  }
+
+  // Release or discard held events when setConsent() is called
+  useEffect(() => {
+    const handleConsent = (consent: ConsentCategories) => {
+      const held = heldRef.current.splice(0)
+      const touches = pendingTouchesRef.current.splice(0)
+      const arrivingVisitor = pendingVisitorRef.current
+      pendingVisitorRef.current = null
+      if (!requireConsentRef.current || !consent.analytics || blockedRef.current) return
+      if (arrivingVisitor) _setVisitorId(arrivingVisitor)
+      const options = attributionRef.current
+      if (options && consent.marketing) touches.forEach((touch) => recordTouch(touch, options.lookbackMs))
+      held.forEach((event) => deliver(applyConsent(withAttribution(event), consent)))
+    }
+    consentListeners.add(handleConsent)
+    return () => {
+      consentListeners.delete(handleConsent)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  // Site search — a "site_search" event for every accepted pageview whose URL carries
+  // a search term. Options are read through a ref so an inline options object or
+  // resultCount callback does not re-register the listener on every render.
+  const searchRef = useRef(resolveSearchOptions(trackSearch))
+  searchRef.current = resolveSearchOptions(trackSearch)
+  const searchEnabled = trackSearch !== false
+  useEffect(() => {
+    if (!searchEnabled) return
+    const timers = new Set<ReturnType<typeof setTimeout>>()
+    let active = true
+
+    const handlePageview = (event: BatchEvent) => {
+      const options = searchRef.current
+      if (!options) return
+      const search = getSearchInfo(window.location.search, options)
+      if (!search) return
+
+      const send = (resultCount: unknown) => {
+        if (!active) return
+        enqueue({
+          website_id: websiteId,
+          type: 'event',
+          url: event.url,
+          event_name: 'site_search',
+          event_data: {
+            ...search,
+            ...(typeof resultCount === 'number' && Number.isFinite(resultCount) ? { result_count: resultCount } : {}),
+          },
+        })
+      }
+
+      // Queue after the pageview itself, once the route has rendered its results
+      const timer = setTimeout(() => {
+        timers.delete(timer)
+        let resultCount: ReturnType<NonNullable<SearchTrackingOptions['resultCount']>>
+        try {
+          resultCount = options.resultCount?.(search.term)
+        } catch {
+          // A throwing callback must not lose the search itself
+        }
+        if (!(resultCount instanceof Promise)) {
+          send(resultCount)
+          return
+        }
+
+        // Wait for the results to load — a rejected or slow count sends the search without one
+        let settled = false
+        const settle = (count: unknown) => {
+          if (settled) return
+          settled = true
+          clearTimeout(giveUp)
+          timers.delete(giveUp)
+          send(count)
+        }
+        const giveUp = setTimeout(() => settle(undefined), SEARCH_RESULT_COUNT_TIMEOUT)
+        timers.add(giveUp)
+        resultCount.then(settle, () => settle(undefined))
+      }, 0)
+      timers.add(timer)
+    }
+
+    pageviewListenersRef.current.add(handlePageview)
+    return () => {
+      active = false
+      pageviewListenersRef.current.delete(handlePageview)
+      timers.forEach((timer) => clearTimeout(timer))
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchEnabled, websiteId])
+
+  // Attribution — record a touch for every accepted pageview whose URL carries
+  // campaign parameters or whose referrer is another site. Listeners run before
+  // the pageview is admitted, so a landing pageview already carries its own touch.
+  const attributionEnabled = attribution !== false
+  useEffect(() => {
+    if (!attributionEnabled) return
+    const handlePageview = (event: BatchEvent) => {
+      const options = attributionRef.current
+      // A back/forward cache restore is a return to a page already counted, not
+      // a new arrival — its URL may still carry the landing campaign
+      if (!options || event.bfcache) return
+      // Stored only once tracking and marketing are allowed; while consent is
+      // pending the touch waits in memory for setConsent()
+      const consent = requireConsentRef.current ? getStoredConsent() : ALL_CONSENT
+      if (consent && !(consent.analytics && consent.marketing)) return
+
+      const fromUrl = readCampaign(window.location.search, campaignParamsRef.current)
+      const campaign = hasCampaignKey(fromUrl) ? fromUrl : {}
+      const referrerDomain = getReferrerDomain(event.referrer)
+      if (Object.keys(campaign).length === 0 && !referrerDomain) return
+      const rules = redactRef.current
+      const touch: AttributionTouch = {
+        ...toCampaignFields(campaign),
+        ...(referrerDomain ? { referrer_domain: referrerDomain } : {}),
+        landing_page: rules ? redactEvent({ url: event.url }, rules).url : event.url,
+        timestamp: new Date().toISOString(),
+      }
+      if (consent) {
+        recordTouch(touch, options.lookbackMs)
+        return
+      }
+      const pending = pendingTouchesRef.current
+      if (pending.length === 2) pending[1] = touch
+      else pending.push(touch)
+    }
+
+    pageviewListenersRef.current.add(handlePageview)
+    return () => {
+      pageviewListenersRef.current.delete(handlePageview)
+    }
+  }, [attributionEnabled])
+
+  // Option objects and arrays are compared by value: an inline literal is new on
+  // every render and would re-run the effect below — a second initial pageview
+  // and history.pushState patched again.
+  const scrollDepthKey = JSON.stringify(trackScrollDepth)
+  const downloadsKey = JSON.stringify(trackDownloads)
+  const engagementKey = JSON.stringify(trackEngagement)
+  const errorsKey = JSON.stringify(trackErrors)
+  const frustrationKey = JSON.stringify(trackFrustration)
+
+  // Track pageview on mount; wire page lifecycle and SPA navigation
   useEffect(() => {
+    // Visitor arriving from another crossDomain site. The token leaves the
+    // address bar even when tracking is off, so it is never shared or bookmarked.
+    const arrivingVisitor = crossDomainEnabled ? takeCrossDomainVisitor() : null
+
     blockedRef.current =
       !websiteId || disabled || isPrivacyBlocked(respectDnt)
 
     if (blockedRef.current) return
 
+    // Adopt its visitor ID before the first event goes out — once analytics
+    // consent allows storing it; while pending, on grant
+    if (arrivingVisitor) {
+      const consent = requireConsentRef.current ? getStoredConsent() : ALL_CONSENT
+      if (!consent) pendingVisitorRef.current = arrivingVisitor
+      else if (consent.analytics) _setVisitorId(arrivingVisitor)
+    }
+
     // Initial pageview
+    const initialRoute = getPagesRoute()
     enqueue({
       website_id: websiteId,
       type: 'pageview',
-      url: window.location.pathname,
+      url: locationUrl(),
       referrer: document.referrer || undefined,
-      ...getPageviewExtras(),
+      ...(initialRoute ? { route: initialRoute } : {}),
+      ...pageviewExtras(),
     })
 
-    // Flush on tab close (best-effort via sendBeacon)
-    const handleUnload = () => { void flush.current() }
-    window.addEventListener('beforeunload', handleUnload)
+    // Flush when the page may be going away (best-effort via sendBeacon).
+    // visibilitychange → hidden is the last event mobile browsers reliably fire
+    // (app switcher, tab kill); pagehide covers desktop navigations. Unlike
+    // beforeunload, neither disqualifies the page from the back/forward cache.
+    const handleUnload = () => {
+      renderingRef.current.forEach((admitRendered) => admitRendered())
+      void flush.current()
+      // Batches still waiting for their retry would die with the page. The store
+      // takes them over: their retries are cancelled so they are sent only once,
+      // from the replay when the tab is visible again or on the next load.
+      if (offlineRef.current && retryingRef.current.size > 0) {
+        const pending = Array.from(retryingRef.current.keys()).flat()
+        retryingRef.current.forEach((timer) => clearTimeout(timer))
+        retryingRef.current.clear()
+        void persistOfflineEvents(pending, offlineRef.current)
+      }
+    }
+    const handleVisibilityFlush = () => {
+      if (document.visibilityState === 'hidden') handleUnload()
+      else void replayOffline.current()
+    }
+    window.addEventListener('pagehide', handleUnload)
+    document.addEventListener('visibilitychange', handleVisibilityFlush)
+
+    // Back/forward cache restore — the page was frozen, not reloaded, so no
+    // effect re-runs. Record the return visit as a new pageview.
+    const handlePageShow = (e: PageTransitionEvent) => {
+      if (!e.persisted) return
+      enqueue({
+        website_id: websiteId,
+        type: 'pageview',
+        url: locationUrl(),
+        // Not document.referrer: that is still the landing referrer of the hard load
+        referrer: pageviewReferrer(),
+        bfcache: true,
+        ...pageviewExtras(),
+      })
+    }
+    window.addEventListener('pageshow', handlePageShow)
+
+    // Replay events persisted by an earlier page load, and again on reconnect
+    const handleOnline = () => { void replayOffline.current() }
+    void replayOffline.current()
+    window.addEventListener('online', handleOnline)
 
     // SPA navigation detection via History.pushState monkey-patch.
     // Catches all SPA navigations including App Router and Pages Router transitions.
     const originalPushState = history.pushState.bind(history)
     history.pushState = (...args: Parameters<typeof history.pushState>) => {
       originalPushState(...args)
-      enqueue({
-        website_id: websiteId,
-        type: 'pageview',
-        url: window.location.pathname,
-        referrer: document.referrer || undefined,
-        ...getPageviewExtras(),
+      navigationPageview(locationUrl(), getPagesRoute(args[0]))
+    }
+
+    // Also handle popstate (back/forward, and in-page hash links)
+    const handlePopState = (e: PopStateEvent) => {
+      navigationPageview(locationUrl(), getPagesRoute(e.state))
+    }
+    window.addEventListener('popstate', handlePopState)
+
+    // Pages Router: listen to routeChangeComplete for router.replace() / shallow routing.
+    // Dynamic import avoids breaking App Router builds where next/router is not in use.
+    let cleanupPagesRouter: (() => void) | null = null
+    import('next/router')
+      .then(mod => {
+        const router = mod.default
+        // `url` is the as-path, query string and hash included
+        const handleRouteChange = (url: string) => {
+          navigationPageview(captureUrl(url, captureUrlRef.current), router.pathname)
+        }
+        router.events?.on('routeChangeComplete', handleRouteChange)
+        cleanupPagesRouter = () => {
+          router.events?.off('routeChangeComplete', handleRouteChange)
+        }
+      })
+      .catch(() => {
+        // next/router not available (App Router project) — pushState monkey-patch handles it
       })
+
+    // Link click delegation — tracks ALL <a href> clicks when trackLinks is enabled.
+    // Uses capture phase so we fire before React's synthetic onClick handlers
+    // (and before Next.js can preventDefault for client-side navigation).
+    // The tracking is fire-and-forget; we never interfere with navigation.
+    const downloadExtensions: string[] | null =
+      trackDownloads === false
+        ? null
+        : Array.isArray(trackDownloads) ? trackDownloads : DEFAULT_DOWNLOAD_EXTENSIONS
+
+    let cleanupLinkTracking: (() => void) | null = null
+    if (trackLinks) {
+      const handleLinkClick = (e: MouseEvent) => {
+        if (blockedRef.current) return
+
+        // Walk up from the click target to find the nearest <a href>
+        const anchor = (e.target as HTMLElement | null)?.closest<HTMLAnchorElement>('a[href]')
+        if (!anchor) return
+
+        // Reported as "file_download" by the download listener instead
+        if (downloadExtensions && getDownloadInfo(anchor, downloadExtensions)) return
+
+        const rawHref = anchor.getAttribute('href') ?? ''
+        // Skip hash-only anchors (e.g. "#", "#section") and javascript: pseudo-links
+        if (!rawHref || rawHref.startsWith('#') || rawHref.startsWith('javascript:')) return
+
+        let href = rawHref
+        let external = false
+        try {
+          const url = new URL(rawHref, window.location.href)
+          external = url.origin !== window.location.origin
+          // Normalise: full URL for external, pathname+search+hash for internal
+          href = external ? url.href : url.pathname + url.search + url.hash
+        } catch {
+          // Malformed href (e.g. mailto:, tel:) — use raw value, treat as external
+          external = true
+        }
+
+        // 'outbound' mode: skip internal links
+        if (trackLinks === 'outbound' && !external) return
+
+        // Capture visible link text (trimmed, collapsed whitespace, max 100 chars)
+        const text = getElementText(anchor)
+
+        enqueue({
+          website_id: websiteId,
+          type: 'event',
+          url: locationUrl(),
+          event_name: 'link_click',
+          event_data: {
+            href,
+            ...(text ? { text } : {}),
+            ...(external ? { external: true } : {}),
+          },
+        })
+
+        // The page is likely going away — don't leave the click in the debounce queue
+        if (external || anchor.hasAttribute('download')) {
+          deliverOutbound(e, anchor, anchor.href)
+        }
+      }
+
+      document.addEventListener('click', handleLinkClick, { capture: true })
+      cleanupLinkTracking = () =>
+        document.removeEventListener('click', handleLinkClick, { capture: true })
     }
 
-    // Also handle popstate (back/forward)
-    const handlePopState = () => {
-      enqueue({
-        website_id: websiteId,
-        type: 'pageview',
-        url: window.location.pathname,
-        referrer: document.referrer || undefined,
-        ...getPageviewExtras(),
+    // Download tracking — fires "file_download" for download anchors and tracked
+    // file extensions. Capture phase, like link tracking; flushed immediately
+    // because opening a file may replace the page.
+    let cleanupDownloadTracking: (() => void) | null = null
+    if (downloadExtensions) {
+      const handleDownloadClick = (e: MouseEvent) => {
+        if (blockedRef.current) return
+        const anchor = (e.target as HTMLElement | null)?.closest<HTMLAnchorElement>('a[href]')
+        if (!anchor) return
+
+        const download = getDownloadInfo(anchor, downloadExtensions)
+        if (!download) return
+
+        enqueue({
+          website_id: websiteId,
+          type: 'event',
+          url: locationUrl(),
+          event_name: 'file_download',
+          event_data: download,
+        })
+        deliverOutbound(e, anchor, anchor.href)
+      }
+
+      document.addEventListener('click', handleDownloadClick, { capture: true })
+      cleanupDownloadTracking = () =>
+        document.removeEventListener('click', handleDownloadClick, { capture: true })
+    }
+
+    // Cross-domain link decoration — a fresh visitor token on every click (and
+    // middle click) on a link to a crossDomain site. Registered after link and
+    // download tracking so their events report the undecorated href. The visitor
+    // ID only leaves the site with analytics consent.
+    let cleanupCrossDomain: (() => void) | null = null
+    if (crossDomainEnabled) {
+      const handleCrossDomainClick = (e: MouseEvent) => {
+        const anchor = (e.target as HTMLElement | null)?.closest<HTMLAnchorElement>('a[href]')
+        const domains = crossDomainRef.current
+        if (!anchor || !domains || blockedRef.current) return
+        if (requireConsentRef.current && !getStoredConsent()?.analytics) return
+        const decorated = decorateCrossDomainUrl(anchor.href, domains)
+        if (decorated) anchor.href = decorated
+      }
+
+      document.addEventListener('click', handleCrossDomainClick, { capture: true })
+      document.addEventListener('auxclick', handleCrossDomainClick, { capture: true })
+      cleanupCrossDomain = () => {
+        document.removeEventListener('click', handleCrossDomainClick, { capture: true })
+        document.removeEventListener('auxclick', handleCrossDomainClick, { capture: true })
+      }
+    }
+
+    // Core Web Vitals — per-page metrics are reported when the tab is hidden (the
+    // last reliable moment on mobile) and when the page ends: on the next pageview
+    // (any detection path) or on pagehide. A hidden tab may come back, and CLS /
+    // INP recorded after that still belong to the same page: sent as updates.
+    let cleanupWebVitals: (() => void) | null = null
+    if (trackWebVitals) {
+      const monitor = createWebVitalsMonitor(locationUrl(), (metric) => {
+        enqueue({
+          website_id: websiteId,
+          type: 'event',
+          url: metric.url,
+          event_name: 'web_vitals',
+          event_data: {
+            metric: metric.name,
+            value: metric.value,
+            rating: rateWebVital(metric.name, metric.value),
+            navigation_type: metric.navigationType,
+            ...(metric.update ? { update: true } : {}),
+          },
+        })
       })
+      const handlePageview = (event: BatchEvent) =>
+        monitor.navigate(event.url, event.bfcache ? 'back-forward-cache' : undefined)
+      // Flushed here: the unload flush has already run by the time this listener does
+      const handlePagehide = () => {
+        monitor.finalize()
+        void flush.current()
+      }
+      const handleVitalsHidden = () => {
+        if (document.visibilityState !== 'hidden') return
+        monitor.report()
+        void flush.current()
+      }
+      pageviewListenersRef.current.add(handlePageview)
+      window.addEventListener('pagehide', handlePagehide)
+      document.addEventListener('visibilitychange', handleVitalsHidden)
+      cleanupWebVitals = () => {
+        pageviewListenersRef.current.delete(handlePageview)
+        window.removeEventListener('pagehide', handlePagehide)
+        document.removeEventListener('visibilitychange', handleVitalsHidden)
+        monitor.disconnect()
+      }
+    }
+
+    // Engaged time — foreground time with recent input, reported as "page_leave"
+    // when the next pageview is accepted by enqueue(), on pagehide, or when the tab
+    // is hidden (the last reliable moment on mobile). A visitor returning to the
+    // hidden tab keeps counting; that time is reported as a continuation, so each
+    // pageview still has exactly one page_leave without the flag.
+    let cleanupEngagement: (() => void) | null = null
+    if (trackEngagement !== false) {
+      const idleTimeout =
+        (trackEngagement === true ? undefined : trackEngagement.idleTimeout) ?? 30_000
+
+      let pageUrl = locationUrl()
+      let engagedMs = 0
+      let activeSince: number | null = null
+      let maxScroll = 0
+      let left = false
+      // Counting again after the tab was hidden and its page_leave already sent
+      let returned = false
+      let idleTimer: ReturnType<typeof setTimeout> | null = null
+
+      const pause = () => {
+        if (activeSince !== null) {
+          engagedMs += Date.now() - activeSince
+          activeSince = null
+        }
+        if (idleTimer) {
+          clearTimeout(idleTimer)
+          idleTimer = null
+        }
+      }
+
+      const resume = () => {
+        if (left || document.visibilityState === 'hidden') return
+        if (activeSince === null) activeSince = Date.now()
+        if (idleTimer) clearTimeout(idleTimer)
+        idleTimer = setTimeout(pause, idleTimeout)
+      }
+
+      const measureScroll = () => {
+        maxScroll = Math.max(maxScroll, getScrollPercent() ?? 100)
+      }
+
+      const leave = () => {
+        if (left) return
+        pause()
+        left = true
+        // Back without engaging — nothing to add to the page_leave already sent
+        if (returned && engagedMs === 0) return
+        enqueue({
+          website_id: websiteId,
+          type: 'event',
+          url: pageUrl,
+          event_name: 'page_leave',
+          event_data: {
+            duration_ms: engagedMs,
+            max_scroll_depth: maxScroll,
+            ...(returned ? { continuation: true } : {}),
+          },
+        })
+      }
+
+      const handlePageview = (event: BatchEvent) => {
+        leave()
+        pageUrl = event.url
+        engagedMs = 0
+        maxScroll = 0
+        left = false
+        returned = false
+        measureScroll()
+        resume()
+      }
+
+      // Hidden / pagehide end the page — flush right away, the page may never come back
+      const handleHide = () => {
+        if (left) return
+        measureScroll()
+        leave()
+        void flush.current()
+      }
+      const handleVisibility = () => {
+        if (document.visibilityState === 'hidden') {
+          handleHide()
+        } else if (left) {
+          // Back on the same page — count from here
+          left = false
+          returned = true
+          engagedMs = 0
+          resume()
+        }
+      }
+      const handleScrollActivity = () => {
+        measureScroll()
+        resume()
+      }
+
+      const activityEvents = ['pointerdown', 'keydown', 'touchstart', 'mousemove'] as const
+      activityEvents.forEach((type) =>
+        window.addEventListener(type, resume, { passive: true, capture: true }),
+      )
+      window.addEventListener('scroll', handleScrollActivity, { passive: true })
+      window.addEventListener('pagehide', handleHide)
+      document.addEventListener('visibilitychange', handleVisibility)
+      pageviewListenersRef.current.add(handlePageview)
+      measureScroll()
+      resume()
+
+      cleanupEngagement = () => {
+        pause()
+        activityEvents.forEach((type) =>
+          window.removeEventListener(type, resume, { capture: true }),
+        )
+        window.removeEventListener('scroll', handleScrollActivity)
+        window.removeEventListener('pagehide', handleHide)
+        document.removeEventListener('visibilitychange', handleVisibility)
+        pageviewListenersRef.current.delete(handlePageview)
+      }
     }
-    window.addEventListener('popstate', handlePopState)
 
-    // Pages Router: listen to routeChangeComplete for router.replace() / shallow routing.
-    // Dynamic import avoids breaking App Router builds where next/router is not in use.
-    let cleanupPagesRouter: (() => void) | null = null
-    import('next/router')
-      .then(mod => {
-        const router = mod.default
-        const handleRouteChange = (url: string) => {
-          enqueue({
-            website_id: websiteId,
-            type: 'pageview',
-            url,
-            referrer: document.referrer || undefined,
-            ...getPageviewExtras(),
-          })
-        }
-        router.events?.on('routeChangeComplete', handleRouteChange)
-        cleanupPagesRouter = () => {
-          router.events?.off('routeChangeComplete', handleRouteChange)
-        }
-      })
-      .catch(() => {
-        // next/router not available (App Router project) — pushState monkey-patch handles it
-      })
+    // Error tracking — uncaught errors and unhandled rejections become "js_error" events.
+    // Deduped by fingerprint and capped per pageview; both reset when enqueue() accepts a pageview.
+    let cleanupErrorTracking: (() => void) | null = null
+    if (trackErrors !== false) {
+      const maxPerPage = (trackErrors === true ? undefined : trackErrors.maxPerPage) ?? 10
+      let reported = new Set<string>()
 
-    // Link click delegation — tracks ALL <a href> clicks when trackLinks is enabled.
-    // Uses capture phase so we fire before React's synthetic onClick handlers
-    // (and before Next.js can preventDefault for client-side navigation).
-    // The tracking is fire-and-forget; we never interfere with navigation.
-    let cleanupLinkTracking: (() => void) | null = null
-    if (trackLinks) {
-      const handleLinkClick = (e: MouseEvent) => {
-        if (blockedRef.current) return
+      const handleError = (e: Event) => {
+        if (blockedRef.current || reported.size >= maxPerPage) return
+        const details = describeError(e)
+        if (!details) return
+        const fingerprint = details['fingerprint'] as string
+        if (reported.has(fingerprint)) return
+        reported.add(fingerprint)
 
-        // Walk up from the click target to find the nearest <a href>
-        const anchor = (e.target as HTMLElement | null)?.closest<HTMLAnchorElement>('a[href]')
-        if (!anchor) return
+        enqueue({
+          website_id: websiteId,
+          type: 'event',
+          url: locationUrl(),
+          event_name: 'js_error',
+          event_data: details,
+        })
+      }
+      const handlePageview = () => {
+        reported = new Set<string>()
+      }
 
-        const rawHref = anchor.getAttribute('href') ?? ''
-        // Skip hash-only anchors (e.g. "#", "#section") and javascript: pseudo-links
-        if (!rawHref || rawHref.startsWith('#') || rawHref.startsWith('javascript:')) return
+      window.addEventListener('error', handleError)
+      window.addEventListener('unhandledrejection', handleError)
+      pageviewListenersRef.current.add(handlePageview)
+      cleanupErrorTracking = () => {
+        window.removeEventListener('error', handleError)
+        window.removeEventListener('unhandledrejection', handleError)
+        pageviewListenersRef.current.delete(handlePageview)
+      }
+    }
 
-        let href = rawHref
-        let external = false
+    // Frustration tracking — rage clicks (a burst of clicks on one spot) and dead clicks
+    // (an interactive-looking element that does nothing visible). Capture phase, like
+    // link tracking, so handlers calling stopPropagation() cannot hide the click.
+    let cleanupFrustrationTracking: (() => void) | null = null
+    if (trackFrustration !== false) {
+      const options = trackFrustration === true ? {} : trackFrustration
+      const rageClicks = options.rageClicks ?? 3
+      const rageWindow = options.rageWindow ?? 1000
+      const rageRadius = options.rageRadius ?? 30
+      const deadClickTimeout = options.deadClickTimeout ?? 1000
+
+      let recentClicks: { x: number; y: number; ts: number }[] = []
+      const pendingDeadClicks = new Set<Element>()
+      // Each pending dead-click timer and the observer it is waiting on
+      const deadClickWatches = new Map<ReturnType<typeof setTimeout>, MutationObserver>()
+
+      // Time of the latest request that is not our own delivery, where observable
+      let lastRequestAt = -Infinity
+      let resourceObserver: PerformanceObserver | null = null
+      if (typeof PerformanceObserver !== 'undefined') {
         try {
-          const url = new URL(rawHref, window.location.href)
-          external = url.origin !== window.location.origin
-          // Normalise: full URL for external, pathname+search+hash for internal
-          href = external ? url.href : url.pathname + url.search + url.hash
+          resourceObserver = new PerformanceObserver((list) => {
+            const ownUrl = new URL(collectUrlRef.current, window.location.href).href
+            for (const entry of list.getEntries()) {
+              if (!entry.name.startsWith(ownUrl)) lastRequestAt = Math.max(lastRequestAt, entry.startTime)
+            }
+          })
+          resourceObserver.observe({ type: 'resource', buffered: false })
         } catch {
-          // Malformed href (e.g. mailto:, tel:) — use raw value, treat as external
-          external = true
+          resourceObserver = null
         }
+      }
 
-        // 'outbound' mode: skip internal links
-        if (trackLinks === 'outbound' && !external) return
-
-        // Capture visible link text (trimmed, collapsed whitespace, max 100 chars)
-        const text = anchor.textContent?.trim().replace(/\s+/g, ' ').slice(0, 100) || undefined
-
+      const report = (eventName: string, element: Element, extra?: Record<string, unknown>) => {
+        const text = getElementText(element)
         enqueue({
           website_id: websiteId,
           type: 'event',
-          url: window.location.pathname,
-          event_name: 'link_click',
-          event_data: {
-            href,
-            ...(text ? { text } : {}),
-            ...(external ? { external: true } : {}),
-          },
+          url: locationUrl(),
+          event_name: eventName,
+          event_data: { selector: getStableSelector(element), ...(text ? { text } : {}), ...extra },
         })
       }
 
-      document.addEventListener('click', handleLinkClick, { capture: true })
-      cleanupLinkTracking = () =>
-        document.removeEventListener('click', handleLinkClick, { capture: true })
+      const watchForDeadClick = (element: Element) => {
+        if (pendingDeadClicks.has(element) || typeof MutationObserver === 'undefined') return
+        pendingDeadClicks.add(element)
+
+        const startUrl = window.location.href
+        const startTime = typeof performance !== 'undefined' ? performance.now() : 0
+        let mutated = false
+        const observer = new MutationObserver(() => {
+          mutated = true
+          observer.disconnect()
+        })
+        observer.observe(document.documentElement, {
+          childList: true,
+          subtree: true,
+          attributes: true,
+          characterData: true,
+        })
+
+        const timer = setTimeout(() => {
+          deadClickWatches.delete(timer)
+          pendingDeadClicks.delete(element)
+          // Records not yet delivered to the callback still count
+          if (observer.takeRecords().length > 0) mutated = true
+          observer.disconnect()
+          if (mutated || window.location.href !== startUrl || lastRequestAt >= startTime) return
+          if (blockedRef.current || !element.isConnected) return
+          report('dead_click', element)
+        }, deadClickTimeout)
+        deadClickWatches.set(timer, observer)
+      }
+
+      const handleFrustrationClick = (e: MouseEvent) => {
+        if (blockedRef.current) return
+        const target = e.target as Element | null
+        if (!target?.closest) return
+        const interactive = target.closest(INTERACTIVE_SELECTOR)
+
+        const now = Date.now()
+        recentClicks = recentClicks.filter((click) =>
+          now - click.ts <= rageWindow &&
+          Math.hypot(click.x - e.clientX, click.y - e.clientY) <= rageRadius,
+        )
+        recentClicks.push({ x: e.clientX, y: e.clientY, ts: now })
+        if (recentClicks.length >= rageClicks) {
+          report('rage_click', interactive ?? target, { clicks: recentClicks.length })
+          recentClicks = []
+        }
+
+        if (!interactive) return
+        // Links that open elsewhere legitimately leave this page untouched
+        if (interactive.tagName === 'A' && !navigatesCurrentTab(e, interactive as HTMLAnchorElement)) return
+        watchForDeadClick(interactive)
+      }
+
+      document.addEventListener('click', handleFrustrationClick, { capture: true })
+      cleanupFrustrationTracking = () => {
+        document.removeEventListener('click', handleFrustrationClick, { capture: true })
+        resourceObserver?.disconnect()
+        deadClickWatches.forEach((observer, timer) => {
+          clearTimeout(timer)
+          observer.disconnect()
+        })
+        deadClickWatches.clear()
+        pendingDeadClicks.clear()
+      }
     }
 
     // Scroll depth tracking — fires "scroll_depth" event at configurable percentage thresholds.
@@ -672,24 +3599,20 @@ export function SparklyticsProvider({
       // Mutable state for the current page's fired set and its URL.
       // Checked and reset lazily at scroll time for zero overhead on navigation.
       let scrollFired = new Set<number>()
-      let lastScrollUrl = window.location.pathname
+      let lastScrollUrl = locationUrl()
 
       const handleScroll = () => {
         if (blockedRef.current) return
 
         // Reset fired set when the URL has changed (SPA navigation happened since last scroll).
-        const currentUrl = window.location.pathname
+        const currentUrl = locationUrl()
         if (currentUrl !== lastScrollUrl) {
           scrollFired = new Set<number>()
           lastScrollUrl = currentUrl
         }
 
-        const scrollTop = window.scrollY ?? document.documentElement.scrollTop
-        const docHeight =
-          document.documentElement.scrollHeight - window.innerHeight
-        if (docHeight <= 0) return
-
-        const pct = Math.round((scrollTop / docHeight) * 100)
+        const pct = getScrollPercent()
+        if (pct === null) return
 
         for (const threshold of thresholds) {
           if (pct >= threshold && !scrollFired.has(threshold)) {
@@ -711,46 +3634,182 @@ export function SparklyticsProvider({
 
     // Form submission tracking — fires "form_submit" event on every <form> submit.
     // Uses capture phase so we fire before the form's own submit handler.
+    // 'extended' also follows each form from its first focused field until it is
+    // submitted, or abandoned by the next pageview / pagehide or the tab being
+    // hidden — mobile browsers often discard a background tab without pagehide.
     let cleanupFormTracking: (() => void) | null = null
     if (trackForms) {
+      const extended = trackForms === 'extended'
+      const progress = new Map<HTMLFormElement, FormProgress>()
+
       const handleSubmit = (e: Event) => {
         if (blockedRef.current) return
         const form = e.target as HTMLFormElement | null
         if (!form || form.tagName !== 'FORM') return
 
-        const data: Record<string, unknown> = {}
-        if (form.id) data['form_id'] = form.id
-        if (form.name) data['form_name'] = form.name
+        const data = getFormIdentity(form)
         // Include action only if it's a real URL (not a javascript: pseudo-href)
         if (form.action && !form.action.startsWith('javascript:')) {
           data['action'] = form.action
         }
+        const state = progress.get(form)
+        if (state) {
+          data['time_to_submit_ms'] = Date.now() - state.startedAt
+          data['fields_touched'] = state.fields
+          // The form_abandon sent when the tab was hidden did not stick
+          if (state.abandoned) data['resumed'] = true
+          progress.delete(form)
+        }
 
         enqueue({
           website_id: websiteId,
           type: 'event',
-          url: window.location.pathname,
+          url: locationUrl(),
           event_name: 'form_submit',
           event_data: data,
         })
       }
 
+      const handleFieldFocus = (e: Event) => {
+        if (blockedRef.current) return
+        const target = getFormField(e.target)
+        if (!target) return
+
+        let state = progress.get(target.form)
+        if (!state) {
+          state = { url: locationUrl(), startedAt: Date.now(), fields: [], invalidFields: [] }
+          progress.set(target.form, state)
+          enqueue({
+            website_id: websiteId,
+            type: 'event',
+            url: state.url,
+            event_name: 'form_start',
+            event_data: { ...getFormIdentity(target.form), ...(target.name ? { field: target.name } : {}) },
+          })
+        }
+        if (!target.name) return
+        state.lastField = target.name
+        if (!state.fields.includes(target.name) && state.fields.length < MAX_TRACKED_FIELDS) {
+          state.fields.push(target.name)
+        }
+      }
+
+      // "invalid" does not bubble, but the capture phase still sees it
+      const handleInvalid = (e: Event) => {
+        if (blockedRef.current) return
+        const target = getFormField(e.target)
+        if (!target) return
+
+        const state = progress.get(target.form)
+        if (state && target.name && !state.invalidFields.includes(target.name)) {
+          state.invalidFields.push(target.name)
+        }
+        const reason = getValidityReason(target.field)
+        enqueue({
+          website_id: websiteId,
+          type: 'event',
+          url: locationUrl(),
+          event_name: 'form_invalid',
+          event_data: {
+            ...getFormIdentity(target.form),
+            ...(target.name ? { field: target.name } : {}),
+            ...(reason ? { reason } : {}),
+          },
+        })
+      }
+
+      // Every form started but not submitted on the page being left is abandoned
+      const reportAbandoned = () => {
+        progress.forEach((state, form) => {
+          if (state.abandoned) return
+          state.abandoned = true
+          enqueue({
+            website_id: websiteId,
+            type: 'event',
+            url: state.url,
+            event_name: 'form_abandon',
+            event_data: {
+              ...getFormIdentity(form),
+              fields_touched: state.fields,
+              ...(state.lastField ? { last_field: state.lastField } : {}),
+              ...(state.invalidFields.length > 0 ? { invalid_fields: state.invalidFields } : {}),
+              duration_ms: Date.now() - state.startedAt,
+            },
+          })
+        })
+      }
+      const abandonForms = () => {
+        reportAbandoned()
+        progress.clear()
+      }
+      const handleFormPagehide = () => {
+        if (progress.size === 0) return
+        abandonForms()
+        void flush.current()
+      }
+      // A hidden tab may never come back: report now, but keep following the form
+      // so a visitor who returns and submits gets `time_to_submit_ms` and `resumed`
+      const handleFormHidden = () => {
+        if (document.visibilityState !== 'hidden' || progress.size === 0) return
+        reportAbandoned()
+        void flush.current()
+      }
+
       document.addEventListener('submit', handleSubmit, { capture: true })
-      cleanupFormTracking = () =>
+      if (extended) {
+        document.addEventListener('focusin', handleFieldFocus, { capture: true })
+        document.addEventListener('invalid', handleInvalid, { capture: true })
+        window.addEventListener('pagehide', handleFormPagehide)
+        document.addEventListener('visibilitychange', handleFormHidden)
+        pageviewListenersRef.current.add(abandonForms)
+      }
+      cleanupFormTracking = () => {
         document.removeEventListener('submit', handleSubmit, { capture: true })
+        document.removeEventListener('focusin', handleFieldFocus, { capture: true })
+        document.removeEventListener('invalid', handleInvalid, { capture: true })
+        window.removeEventListener('pagehide', handleFormPagehide)
+        document.removeEventListener('visibilitychange', handleFormHidden)
+        pageviewListenersRef.current.delete(abandonForms)
+      }
     }
 
     return () => {
-      window.removeEventListener('beforeunload', handleUnload)
+      window.removeEventListener('pagehide', handleUnload)
+      document.removeEventListener('visibilitychange', handleVisibilityFlush)
+      window.removeEventListener('pageshow', handlePageShow)
+      window.removeEventListener('online', handleOnline)
+      if (replayTimerRef.current) clearTimeout(replayTimerRef.current)
+      replayTimerRef.current = null
       window.removeEventListener('popstate', handlePopState)
       history.pushState = originalPushState
       cleanupPagesRouter?.()
       cleanupLinkTracking?.()
+      cleanupDownloadTracking?.()
+      cleanupCrossDomain?.()
       cleanupScrollTracking?.()
       cleanupFormTracking?.()
+      cleanupWebVitals?.()
+      cleanupEngagement?.()
+      cleanupErrorTracking?.()
+      cleanupFrustrationTracking?.()
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [websiteId, disabled, respectDnt, trackLinks, scrollDepthKey, downloadsKey, trackForms, trackWebVitals, engagementKey, errorsKey, frustrationKey, crossDomainEnabled])
+
+  // Send the "alias" and "identify" events raised by identify(), including those
+  // raised before this provider mounted. Declared after the effect above so
+  // blockedRef is up to date and the initial pageview goes first.
+  useEffect(() => {
+    const handleIdentify = (event: IdentityEvent) => {
+      enqueue({ website_id: websiteId, type: 'event', url: locationUrl(), ...event })
+    }
+    pendingIdentityEvents.splice(0).forEach(handleIdentify)
+    identifyListeners.add(handleIdentify)
+    return () => {
+      identifyListeners.delete(handleIdentify)
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [websiteId, disabled, respectDnt, trackLinks, trackScrollDepth, trackForms])
+  }, [websiteId])
 
   // Custom event tracker exposed via hook.
   // The implementation signature accepts the union of both overloads.
@@ -758,7 +3817,7 @@ export function SparklyticsProvider({
     enqueue({
       website_id: websiteId,
       type: 'event',
-      url: typeof window !== 'undefined' ? window.location.pathname : '/',
+      url: typeof window !== 'undefined' ? locationUrl() : '/',
       referrer: typeof document !== 'undefined' ? document.referrer || undefined : undefined,
       event_name: eventName,
       event_data: eventData,
@@ -767,38 +3826,62 @@ export function SparklyticsProvider({
 
   // Manual pageview — lets consumers fire a pageview outside of automatic navigation detection.
   // Useful for full-screen modals, multi-step wizards, or virtual pages.
-  const pageview = (url?: string) => {
+  const pageview = (url?: string, data?: Record<string, unknown>) => {
     enqueue({
       website_id: websiteId,
       type: 'pageview',
-      url: url ?? (typeof window !== 'undefined' ? window.location.pathname : '/'),
-      referrer: typeof document !== 'undefined' ? document.referrer || undefined : undefined,
-      ...getPageviewExtras(),
+      url: url ?? (typeof window !== 'undefined' ? locationUrl() : '/'),
+      referrer: pageviewReferrer(),
+      ...(data ? { page_data: data } : {}),
+      ...pageviewExtras(),
     })
   }
 
   // Hook context versions — delegate to the module-level standalone functions
   // so that useSparklytics().identify() and the imported identify() share
   // exactly the same localStorage implementation.
-  const identifyCtx = (visitorId: string): void => _setVisitorId(visitorId)
-  const resetCtx = (): void => _clearVisitorId()
+  const identifyCtx = (visitorId: string, traits?: Record<string, unknown>): void => identify(visitorId, traits)
+  const resetCtx = (): void => reset()
 
   return React.createElement(
     SparklyticsContext.Provider,
-    { value: { track, pageview, identify: identifyCtx, reset: resetCtx } },
-    React.createElement(AppRouterTracker, {
-      // enqueue() reads blockedRef.current internally, so no need to pass disabled here.
-      onNavigate: (url: string) => {
-        enqueue({
-          website_id: websiteId,
-          type: 'pageview',
-          url,
-          referrer: typeof document !== 'undefined' ? document.referrer || undefined : undefined,
-          ...getPageviewExtras(),
-        })
-      },
-    }),
-    children,
+    { value: { track, pageview, identify: identifyCtx, reset: resetCtx, setConsent, register, unregister } },
+    React.createElement(
+      OutboundContext.Provider,
+      { value: deliverOutbound },
+      React.createElement(
+        PageviewListenersContext.Provider,
+        { value: pageviewListenersRef.current },
+        React.createElement(
+          PagePropertiesContext.Provider,
+          { value: pagePropertiesRef.current },
+          React.createElement(AppRouterTracker, {
+            routeRef,
+            // enqueue() reads blockedRef.current internally, so no need to pass disabled here.
+            onNavigate: (url: string) => {
+              // usePathname() has no query string or hash — read them from the location
+              navigationPageview(captureUrlRef.current ? locationUrl() : url)
+            },
+          }),
+          // Rendered only when asked for: useSearchParams() opts statically
+          // rendered routes up to the nearest Suspense boundary into client rendering.
+          captureUrlOptions?.trackParamChanges
+            ? React.createElement(
+                React.Suspense,
+                { fallback: null },
+                React.createElement(SearchParamsTracker, {
+                  onChange: () => {
+                    // A change to a parameter that is not kept leaves the URL as recorded
+                    const url = locationUrl()
+                    if (url !== lastPageviewRef.current?.url) navigationPageview(url)
+                  },
+                }),
+              )
+            : null,
+          children,
+        ),
+      ),
+    ),
   )
 }
 
@@ -814,17 +3897,56 @@ export function SparklyticsProvider({
 //
 // Duplicate pageviews (pushState + usePathname firing for the same
 // navigation) are caught by the 100ms URL-based dedup in enqueue().
+//
+// It also records the route pattern (from useParams()) and whether
+// the URL is shown by an intercepting route (from the children
+// slot's segments) for enqueue() to attach to the pageview.
 // ============================================================
 
 interface AppRouterTrackerProps {
   onNavigate: (url: string) => void
+  routeRef: React.MutableRefObject<RouteInfo | null>
+}
+
+/**
+ * Layout segments of the `children` slot and the route params, or null
+ * segments outside the App Router (e.g. in pages/_app), where there are no layouts.
+ *
+ * Safe on every supported Next.js version: before 14.2, useSelectedLayoutSegments()
+ * destructures the layout router context without a null check and throws outside
+ * the App Router. It throws before using any stateful hook, so catching it keeps
+ * the hook order stable. useParams() is only called where it exists (13.3+).
+ */
+function useRouteSegments(): {
+  layoutSegments: string[] | null
+  params: Record<string, string | string[] | undefined> | null | undefined
+} {
+  let layoutSegments: string[] | null
+  try {
+    layoutSegments = navigation.useSelectedLayoutSegments()
+  } catch {
+    layoutSegments = null
+  }
+  const useParams = (navigation as Partial<typeof navigation>).useParams
+  return { layoutSegments, params: useParams ? useParams() : undefined }
 }
 
-function AppRouterTracker({ onNavigate }: AppRouterTrackerProps) {
+function AppRouterTracker({ onNavigate, routeRef }: AppRouterTrackerProps) {
   const rawPathname = usePathname()
   // usePathname() returns null outside a Next.js context (rare edge case).
   // Fall back to '/' so prevPathRef always gets a defined initial value.
   const pathname = rawPathname ?? '/'
+  const { layoutSegments, params } = useRouteSegments()
+
+  // Written during render rather than in an effect: Next.js calls history.pushState
+  // (and the provider records the pageview) before this component's effects run.
+  if (layoutSegments) {
+    routeRef.current = {
+      url: pathname,
+      ...(params !== undefined ? { route: getRouteTemplate(pathname, params) } : {}),
+      intercepted: !isRenderedAsPage(pathname, layoutSegments),
+    }
+  }
 
   const prevPathRef = useRef<string | null>(null)
 
@@ -848,6 +3970,43 @@ function AppRouterTracker({ onNavigate }: AppRouterTrackerProps) {
   return null
 }
 
+// ============================================================
+// SearchParamsTracker — internal child component
+//
+// Rendered when captureUrl.trackParamChanges is set, to catch
+// router.replace() calls that only change the query string
+// (no pushState, no usePathname() change). Changes that did go
+// through pushState are already recorded by then, so onChange()
+// only sends a URL that differs from the last pageview.
+// ============================================================
+
+interface SearchParamsTrackerProps {
+  onChange: () => void
+}
+
+function SearchParamsTracker({ onChange }: SearchParamsTrackerProps) {
+  // null while the Pages Router is not ready
+  const search = useSearchParams()?.toString() ?? ''
+  const prevSearchRef = useRef<string | null>(null)
+
+  const onChangeRef = useRef(onChange)
+  onChangeRef.current = onChange
+
+  useEffect(() => {
+    if (prevSearchRef.current === null) {
+      // First mount — the initial pageview already covers the current query
+      prevSearchRef.current = search
+      return
+    }
+    if (prevSearchRef.current !== search) {
+      onChangeRef.current()
+      prevSearchRef.current = search
+    }
+  }, [search])
+
+  return null
+}
+
 // ============================================================
 // useSparklytics hook
 // Safe to call in Client Components.
@@ -977,6 +4136,209 @@ export function Track({ event: eventName, data, trigger = 'click', children }: T
   } as Record<string, unknown>)
 }
 
+// ============================================================
+// Impressions — IntersectionObserver-based visibility tracking
+// ============================================================
+
+export interface TrackImpressionOptions {
+  /**
+   * Sparklytics event name fired once the element has been seen.
+   * Max 50 chars.
+   */
+  event: string
+  /**
+   * Optional event payload. Max 4 KB JSON-serialized.
+   */
+  data?: Record<string, unknown>
+  /**
+   * Fraction of the element (0–1) that must be inside the viewport.
+   * @default 0.5
+   */
+  threshold?: number
+  /**
+   * How long (ms) the element must stay visible, without interruption and
+   * with the tab in the foreground, before the impression counts.
+   * @default 1000
+   */
+  minDuration?: number
+}
+
+export interface TrackImpressionProps extends TrackImpressionOptions {
+  /**
+   * Must be a single React element that renders a DOM node — a host element
+   * or a component that forwards its ref.
+   */
+  children: React.ReactElement
+}
+
+/**
+ * Fires a Sparklytics event when the referenced element has actually been
+ * visible — at least `threshold` of it in the viewport for `minDuration` ms.
+ *
+ * Fires at most **once per page view**: the next pageview (SPA navigation or
+ * manual `pageview()`) makes the element eligible again. Scrolling away or
+ * hiding the tab before `minDuration` elapses restarts the clock.
+ *
+ * No-op where `IntersectionObserver` is unavailable.
+ *
+ * @example
+ * ```tsx
+ * const ref = useRef<HTMLDivElement>(null)
+ * useTrackImpression(ref, { event: 'pricing_viewed', data: { variant: 'b' } })
+ * return <div ref={ref}>...</div>
+ * ```
+ */
+export function useTrackImpression(
+  ref: React.RefObject<Element>,
+  { event: eventName, data, threshold = 0.5, minDuration = 1000 }: TrackImpressionOptions,
+): void {
+  const { track } = useSparklytics()
+  const pageviewListeners = useContext(PageviewListenersContext)
+
+  // Latest event details without re-observing when an inline `data` object changes
+  const latestRef = useRef({ track, eventName, data })
+  latestRef.current = { track, eventName, data }
+
+  useEffect(() => {
+    const element = ref.current
+    if (!element || typeof IntersectionObserver === 'undefined') return
+
+    let inView = false
+    let seen = false
+    let timer: ReturnType<typeof setTimeout> | null = null
+
+    const stopTimer = () => {
+      if (timer === null) return
+      clearTimeout(timer)
+      timer = null
+    }
+    const startTimer = () => {
+      if (seen || timer !== null || !inView || document.visibilityState === 'hidden') return
+      timer = setTimeout(() => {
+        timer = null
+        seen = true
+        const latest = latestRef.current
+        latest.track(latest.eventName, latest.data)
+      }, minDuration)
+    }
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        const entry = entries[entries.length - 1]
+        inView = entry.isIntersecting && entry.intersectionRatio >= threshold
+        if (inView) startTimer()
+        else stopTimer()
+      },
+      { threshold },
+    )
+    observer.observe(element)
+
+    const handleVisibility = () => {
+      if (document.visibilityState === 'hidden') stopTimer()
+      else startTimer()
+    }
+    // A new page view makes the element eligible again
+    const handlePageview = () => {
+      seen = false
+      stopTimer()
+      startTimer()
+    }
+    document.addEventListener('visibilitychange', handleVisibility)
+    pageviewListeners.add(handlePageview)
+
+    return () => {
+      observer.disconnect()
+      stopTimer()
+      document.removeEventListener('visibilitychange', handleVisibility)
+      pageviewListeners.delete(handlePageview)
+    }
+  }, [ref, threshold, minDuration, pageviewListeners])
+}
+
+/**
+ * Declarative wrapper around `useTrackImpression()` — fires a Sparklytics
+ * event once its child has been visible long enough, once per page view.
+ *
+ * An existing `ref` on the child is preserved.
+ *
+ * @example
+ * ```tsx
+ * <TrackImpression event="banner_seen" data={{ slot: 'hero' }} threshold={0.5} minDuration={1000}>
+ *   <section className="banner">...</section>
+ * </TrackImpression>
+ * ```
+ */
+export function TrackImpression({ children, ...options }: TrackImpressionProps) {
+  const child = React.Children.only(children)
+  const ref = useRef<Element | null>(null)
+  useTrackImpression(ref, options)
+
+  const childRef = (child as { ref?: React.Ref<Element> }).ref
+  return React.cloneElement(child, {
+    ref: (node: Element | null) => {
+      ref.current = node
+      if (typeof childRef === 'function') childRef(node)
+      else if (childRef) (childRef as React.MutableRefObject<Element | null>).current = node
+    },
+  } as Record<string, unknown>)
+}
+
+// ============================================================
+// PageProperties — page-level custom dimensions
+// ============================================================
+
+export interface PagePropertiesProps {
+  /**
+   * Custom dimensions of the current page, e.g. `{ author, category, content_type }`.
+   * Sent as `page_data` on the page's pageview and on every event raised while
+   * the component is mounted.
+   */
+  data?: Record<string, unknown>
+  /**
+   * Title of the current page, sent as `title` on its pageview when the
+   * provider's `trackTitle` is on — instead of `document.title`, which may not
+   * be updated yet when the pageview is sent.
+   */
+  title?: string
+}
+
+// Layout effects register before the provider admits a navigation's pageview
+// (on the next task); useEffect is used on the server, where neither runs.
+const useIsomorphicLayoutEffect = typeof window === 'undefined' ? useEffect : useLayoutEffect
+
+/**
+ * Attach custom dimensions to the current page — its pageview and every event
+ * raised on it. Render it in a page or layout; properties are removed when it
+ * unmounts. When several are mounted, their properties are merged and the most
+ * recently mounted wins on conflicting keys. `title` overrides `document.title`
+ * for the page's pageview under `trackTitle`.
+ *
+ * Renders nothing.
+ *
+ * @example
+ * ```tsx
+ * // app/blog/[slug]/page.tsx
+ * <PageProperties title={post.title} data={{ author: post.author, category: post.category, content_type: 'article' }} />
+ * ```
+ */
+export function PageProperties({ data, title }: PagePropertiesProps): null {
+  const pageProperties = useContext(PagePropertiesContext)
+  // Updated in place so an inline `data` object does not re-register every render
+  const entryRef = useRef<PagePropertiesEntry>({ data, title })
+  entryRef.current.data = data
+  entryRef.current.title = title
+
+  useIsomorphicLayoutEffect(() => {
+    const entry = entryRef.current
+    pageProperties.add(entry)
+    return () => {
+      pageProperties.delete(entry)
+    }
+  }, [pageProperties])
+
+  return null
+}
+
 // ============================================================
 // usePageview — standalone Pages Router hook
 // ============================================================
@@ -1003,6 +4365,26 @@ export interface UsePageviewOptions {
    * @default true
    */
   respectDnt?: boolean
+  /**
+   * Inspect, modify or drop each pageview before it is sent — return `null`
+   * to drop it. Same contract as the provider's `beforeSend`.
+   */
+  beforeSend?: (event: BatchEvent) => BatchEvent | null
+  /**
+   * Declarative redaction applied after `beforeSend`. Same rules as the
+   * provider's `redact`.
+   */
+  redact?: RedactionRules
+  /**
+   * Query parameters and hash kept in the recorded `url`. Same options as the
+   * provider's `captureUrl`.
+   */
+  captureUrl?: UrlCaptureOptions
+  /**
+   * Campaign parameters captured next to the UTMs. Same as the provider's
+   * `campaignParams`.
+   */
+  campaignParams?: readonly string[]
 }
 
 /**
@@ -1060,21 +4442,28 @@ export function usePageview(options?: UsePageviewOptions): void {
       ? `${host.replace(/\/$/, '')}/api/collect`
       : '/api/collect'
 
-    const sendPageview = (url: string): void => {
+    let lastUrl: string | undefined
+    const sendPageview = (url: string, route?: string): void => {
       if (typeof navigator === 'undefined') return
+      if (isParamOnlyChange(url, lastUrl, options?.captureUrl)) return
+      lastUrl = url
 
       const event: BatchEvent = {
         website_id: websiteId,
         type: 'pageview',
         url,
-        ...getPageviewExtras(),
+        ...(route ? { route } : {}),
+        ...getPageviewExtras(ALL_CONSENT, options?.campaignParams),
       }
 
       // Attach identified visitor ID if set
       const visitorId = getIdentifiedVisitor()
       if (visitorId) event.visitor_id = visitorId
 
-      const body = JSON.stringify([event])
+      const prepared = prepareOutgoing(event, options?.beforeSend, options?.redact)
+      if (!prepared) return
+
+      const body = JSON.stringify([prepared])
       try {
         if (navigator.sendBeacon) {
           navigator.sendBeacon(
@@ -1097,14 +4486,14 @@ export function usePageview(options?: UsePageviewOptions): void {
     }
 
     // Initial pageview
-    sendPageview(window.location.pathname)
+    sendPageview(getPageUrl(options?.captureUrl), getPagesRoute())
 
     // Pages Router route changes
     let pagesRouterCleanup: (() => void) | null = null
     import('next/router')
       .then((mod) => {
         const router = mod.default
-        const handle = (url: string) => sendPageview(url)
+        const handle = (url: string) => sendPageview(captureUrl(url, options?.captureUrl), router.pathname)
         router.events?.on('routeChangeComplete', handle)
         pagesRouterCleanup = () => router.events?.off('routeChangeComplete', handle)
       })
@@ -1113,7 +4502,8 @@ export function usePageview(options?: UsePageviewOptions): void {
       })
 
     // Back/forward navigation
-    const handlePopState = () => sendPageview(window.location.pathname)
+    const handlePopState = (e: PopStateEvent) =>
+      sendPageview(getPageUrl(options?.captureUrl), getPagesRoute(e.state))
     window.addEventListener('popstate', handlePopState)
 
     return () => {
@@ -1137,6 +4527,9 @@ export function usePageview(options?: UsePageviewOptions): void {
  *
  * For UrlObject hrefs (e.g. `{ pathname: '/products', query: { id: 42 } }`)
  * the `href` in event data is derived from `pathname`.
+ *
+ * Clicks on off-origin hrefs are sent immediately instead of waiting for the
+ * batch debounce, honoring the provider's `outboundDelay`.
  */
 export function TrackedLink({
   eventName = 'link_click',
@@ -1145,6 +4538,7 @@ export function TrackedLink({
   ...linkProps
 }: TrackedLinkProps) {
   const { track } = useSparklytics()
+  const deliverOutbound = useContext(OutboundContext)
 
   const handleClick: React.MouseEventHandler<HTMLAnchorElement> = (e) => {
     // Resolve href to a string for the event payload.
@@ -1157,6 +4551,9 @@ export function TrackedLink({
     track(eventName, { href, ...eventData })
 
     if (typeof onClick === 'function') onClick(e)
+
+    // Off-origin links leave the page — send the click now rather than after the debounce
+    if (href && isOffOrigin(href)) deliverOutbound(e, e.currentTarget, e.currentTarget.href || href)
   }
 
   return React.createElement(Link, { ...linkProps, onClick: handleClick })
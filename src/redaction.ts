@@ -0,0 +1,177 @@
+/**
+ * @sparklytics/next — Event redaction shared by the client and server entry points
+ *
+ * Applies `beforeSend` and the declarative `redact` rules to an outgoing
+ * collect event. No React, no browser APIs — safe in the Edge Runtime.
+ */
+
+// ============================================================
+// Types
+// ============================================================
+
+/**
+ * A redaction pattern. Strings are globs — `*` matches any run of characters,
+ * `?` a single character — matched case-insensitively against the whole value.
+ * Regular expressions are tested as-is.
+ */
+export type RedactionPattern = string | RegExp
+
+/** Declarative redaction applied to every outgoing event. */
+export interface RedactionRules {
+  /**
+   * URL path segments to replace with `"[redacted]"` — in `url`, `referrer`,
+   * URL-valued `event_data` and `page_data` strings (e.g. `href`,
+   * `entry_page`), and the whitespace-separated words of `title`.
+   *
+   * @example [/^[0-9a-f]{32}$/i, 'eyJ*']  // hex tokens and JWTs
+   */
+  pathSegments?: RedactionPattern[]
+  /**
+   * Referrers to reduce to their origin, e.g. `'https://mail.google.com/*'`
+   * records only `https://mail.google.com`.
+   */
+  referrers?: RedactionPattern[]
+  /**
+   * `event_data` and `page_data` keys, at any depth, and `campaign_params`
+   * keys whose values are replaced with `"[redacted]"`.
+   *
+   * @example ['email', '*token*']
+   */
+  eventDataKeys?: RedactionPattern[]
+}
+
+/** The fields of a collect event that redaction looks at. */
+export interface RedactableEvent {
+  url: string
+  referrer?: string
+  title?: string
+  event_data?: Record<string, unknown>
+  page_data?: Record<string, unknown>
+  campaign_params?: Record<string, string>
+}
+
+/** Replacement for redacted path segments and `event_data` values. */
+export const REDACTED = '[redacted]'
+
+// ============================================================
+// Pattern matching
+// ============================================================
+
+type Matcher = (value: string) => boolean
+
+function toMatcher(pattern: RedactionPattern): Matcher {
+  if (pattern instanceof RegExp) {
+    return (value) => {
+      // Global / sticky regexes keep state between test() calls
+      pattern.lastIndex = 0
+      return pattern.test(value)
+    }
+  }
+  const source = pattern
+    .split('')
+    .map((char) => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\/]/g, '\\$&')))
+    .join('')
+  const regex = new RegExp(`^${source}$`, 'i')
+  return (value) => regex.test(value)
+}
+
+function compile(patterns: RedactionPattern[] | undefined): Matcher | null {
+  if (!patterns || patterns.length === 0) return null
+  const matchers = patterns.map(toMatcher)
+  return (value) => matchers.some((match) => match(value))
+}
+
+// ============================================================
+// Redaction
+// ============================================================
+
+/** Scheme + host of an absolute URL. */
+const URL_ORIGIN = /^[a-z][a-z\d+.-]*:\/\/[^/?#]*/i
+
+/** Deepest `event_data` nesting that is walked. */
+const MAX_DATA_DEPTH = 8
+
+/**
+ * Replace matching segments of the path in `value`, which may be a bare path
+ * (`/invite/abc?x=1`) or an absolute URL. Anything else is returned unchanged.
+ */
+function redactPath(value: string, isSensitive: Matcher): string {
+  let origin = ''
+  let rest = value
+  if (!value.startsWith('/') || value.startsWith('//')) {
+    const match = URL_ORIGIN.exec(value)
+    if (!match) return value
+    origin = match[0]
+    rest = value.slice(origin.length)
+  }
+
+  const suffixAt = rest.search(/[?#]/)
+  const path = suffixAt === -1 ? rest : rest.slice(0, suffixAt)
+  const suffix = suffixAt === -1 ? '' : rest.slice(suffixAt)
+
+  const redacted = path
+    .split('/')
+    .map((segment) => {
+      if (!segment) return segment
+      let decoded = segment
+      try { decoded = decodeURIComponent(segment) } catch { /* match the raw segment */ }
+      return isSensitive(decoded) ? REDACTED : segment
+    })
+    .join('/')
+  return origin + redacted + suffix
+}
+
+/** Return a copy of `event` with `rules` applied. The input is not modified. */
+export function redactEvent<T extends RedactableEvent>(event: T, rules: RedactionRules): T {
+  const segment = compile(rules.pathSegments)
+  const referrer = compile(rules.referrers)
+  const key = compile(rules.eventDataKeys)
+  const redactUrl = (value: string) => (segment ? redactPath(value, segment) : value)
+
+  const redactData = (value: unknown, depth: number): unknown => {
+    if (typeof value === 'string') return redactUrl(value)
+    if (depth >= MAX_DATA_DEPTH || value === null || typeof value !== 'object') return value
+    if (Array.isArray(value)) return value.map((item) => redactData(item, depth + 1))
+    const result: Record<string, unknown> = {}
+    for (const [name, item] of Object.entries(value)) {
+      result[name] = key?.(name) ? REDACTED : redactData(item, depth + 1)
+    }
+    return result
+  }
+
+  const result: T = { ...event, url: redactUrl(event.url) }
+  if (event.referrer) {
+    let value: string | undefined = event.referrer
+    if (referrer?.(value)) value = URL_ORIGIN.exec(value)?.[0]
+    if (value) result.referrer = redactUrl(value)
+    else delete result.referrer
+  }
+  if (event.title && segment) {
+    result.title = event.title.replace(/\S+/g, (word) => (segment(word) ? REDACTED : word))
+  }
+  if (event.event_data) {
+    result.event_data = redactData(event.event_data, 0) as Record<string, unknown>
+  }
+  if (event.page_data) {
+    result.page_data = redactData(event.page_data, 0) as Record<string, unknown>
+  }
+  if (event.campaign_params) {
+    result.campaign_params = redactData(event.campaign_params, 0) as Record<string, string>
+  }
+  return result
+}
+
+/**
+ * Run an outgoing event through `beforeSend`, then `rules`. Returns null when
+ * `beforeSend` drops the event. Redaction runs last so that it also covers
+ * anything `beforeSend` adds.
+ */
+export function prepareEvent<T extends RedactableEvent>(
+  event: T,
+  beforeSend?: (event: T) => T | null,
+  rules?: RedactionRules,
+): T | null {
+  const result = beforeSend ? beforeSend(event) : event
+  if (!result) return null
+  return rules ? redactEvent(result, rules) : result
+}
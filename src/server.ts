@@ -111,6 +111,12 @@
  * ```
  */
 
+import { prepareEvent, type RedactionRules } from './redaction'
+import { DEFAULT_CAMPAIGN_PARAMS, readCampaign, toCampaignFields, type CampaignFields } from './campaign'
+
+export type { RedactionPattern, RedactionRules } from './redaction'
+export { DEFAULT_CAMPAIGN_PARAMS } from './campaign'
+
 // ============================================================
 // Shared base options
 // ============================================================
@@ -187,6 +193,14 @@ export interface TrackServerBaseOptions {
    * ```
    */
   visitorId?: string
+
+  /**
+   * Campaign parameters of the visit — UTMs and ad click IDs, e.g.
+   * `{ utm_source: 'newsletter', gclid: 'Cj0KCQ…' }`. Sent with pageviews:
+   * `utm_*` as their own fields, anything else in `campaign_params`.
+   * `fromRequest()` fills this from the request URL's query string.
+   */
+  campaign?: Record<string, string>
 }
 
 // ============================================================
@@ -215,6 +229,17 @@ export interface TrackServerEventOptions extends TrackServerBaseOptions {
   eventData?: Record<string, unknown>
 }
 
+// ============================================================
+// Identify options
+// ============================================================
+
+/**
+ * Request context for an `identify()` or `alias()` call on a server client —
+ * every base option except `host`, `websiteId` and `visitorId`, all optional.
+ * `url` defaults to the bound request's path, or `"/"`.
+ */
+export type IdentifyServerOptions = Partial<Omit<TrackServerBaseOptions, 'host' | 'websiteId' | 'visitorId'>>
+
 // ============================================================
 // Public API
 // ============================================================
@@ -248,11 +273,7 @@ export async function trackServerPageview(
 export async function trackServerEvent(
   options: TrackServerEventOptions,
 ): Promise<void> {
-  await _send(options, {
-    type: 'event',
-    event_name: options.eventName,
-    ...(options.eventData !== undefined ? { event_data: options.eventData } : {}),
-  })
+  await _send(options, _eventFields(options))
 }
 
 // ============================================================
@@ -288,14 +309,42 @@ export interface ServerClientConfig {
    * @default true
    */
   silent?: boolean
+
+  /**
+   * Inspect, modify or drop every event before it is sent — return the event
+   * (or a modified copy) to send it, or `null` to drop it. Exceptions follow
+   * `silent` like any other tracking error.
+   */
+  beforeSend?: (event: ServerCollectEvent) => ServerCollectEvent | null
+
+  /**
+   * Declarative redaction applied to every event after `beforeSend`: URL path
+   * segments, referrers and `event_data` keys, matched by regex or glob.
+   *
+   * @example
+   * ```ts
+   * createServerClient({ redact: { pathSegments: ['eyJ*'], eventDataKeys: ['email'] } })
+   * ```
+   */
+  redact?: RedactionRules
+
+  /**
+   * Query parameters `fromRequest()` forwards as campaign parameters, next to
+   * the UTMs. Replaces the default list — spread `DEFAULT_CAMPAIGN_PARAMS` to
+   * extend it.
+   *
+   * @default DEFAULT_CAMPAIGN_PARAMS — gclid, gbraid, wbraid, fbclid, msclkid,
+   *   ttclid, li_fat_id
+   */
+  campaignParams?: readonly string[]
 }
 
 /**
  * A request-bound client returned by {@link ServerClient.fromRequest}.
  *
- * `url`, `userAgent`, `ip`, `referrer`, and `language` are automatically
- * extracted from the bound `Request` object. All per-call options can still
- * override the extracted values.
+ * `url`, `userAgent`, `ip`, `referrer`, `language` and the campaign parameters
+ * of the query string are automatically extracted from the bound `Request`
+ * object. All per-call options can still override the extracted values.
  */
 export interface BoundServerClient {
   /**
@@ -317,6 +366,33 @@ export interface BoundServerClient {
   trackEvent(
     options: Omit<TrackServerEventOptions, 'host' | 'websiteId' | 'url'> & { url?: string },
   ): Promise<void>
+
+  /**
+   * Send an `"identify"` event updating the traits of `visitorId`, with the
+   * request-derived fields pre-populated.
+   *
+   * @param traits - Visitor traits such as plan, role or company size, sent as `event_data`.
+   * @param options - Overrides for the request-derived fields.
+   */
+  identify(
+    visitorId: string,
+    traits?: Record<string, unknown>,
+    options?: IdentifyServerOptions,
+  ): Promise<void>
+
+  /**
+   * Send an `"alias"` event tying an anonymous visitor to `visitorId`. Without
+   * `previousId`, the backend pairs it with the anonymous visitor it derives
+   * from the bound request's IP and User-Agent.
+   *
+   * @param previousId - The anonymous ID to merge, when you have one.
+   * @param options - Overrides for the request-derived fields.
+   */
+  alias(
+    visitorId: string,
+    previousId?: string,
+    options?: IdentifyServerOptions,
+  ): Promise<void>
 }
 
 /**
@@ -348,6 +424,45 @@ export interface ServerClient {
     options: Omit<TrackServerEventOptions, 'host' | 'websiteId'>,
   ): Promise<void>
 
+  /**
+   * Send an `"identify"` event updating the traits of `visitorId` — e.g. from
+   * a billing webhook after a plan change. Pass the same hashed ID the
+   * browser passes to `identify()`.
+   *
+   * @param traits - Visitor traits such as plan, role or company size, sent as `event_data`.
+   * @param options - Optional request context; `url` defaults to `"/"`.
+   *
+   * @example
+   * ```ts
+   * await analytics.identify(hashedUserId, { plan: 'enterprise', seats: 50 })
+   * ```
+   */
+  identify(
+    visitorId: string,
+    traits?: Record<string, unknown>,
+    options?: IdentifyServerOptions,
+  ): Promise<void>
+
+  /**
+   * Send an `"alias"` event tying an anonymous visitor's history to
+   * `visitorId` — for signups handled by your backend. Pass the anonymous ID
+   * as `previousId` when you have one; otherwise pass the visitor's `ip` and
+   * `userAgent` (or use `fromRequest()`) so the backend can derive it.
+   *
+   * @param previousId - The anonymous ID to merge, sent as `event_data.previous_id`.
+   * @param options - Optional request context; `url` defaults to `"/"`.
+   *
+   * @example
+   * ```ts
+   * await analytics.fromRequest(request).alias(hashedUserId)
+   * ```
+   */
+  alias(
+    visitorId: string,
+    previousId?: string,
+    options?: IdentifyServerOptions,
+  ): Promise<void>
+
   /**
    * Bind a Next.js / Fetch API `Request` object and return a
    * {@link BoundServerClient} with `url`, `userAgent`, `ip`, `referrer`,
@@ -409,12 +524,14 @@ export interface ServerClient {
  * ```
  *
  * @param config - Optional {@link ServerClientConfig}. All fields fall back to env vars.
- * @returns A {@link ServerClient} with `trackPageview`, `trackEvent`, and `fromRequest`.
+ * @returns A {@link ServerClient} with `trackPageview`, `trackEvent`, `identify`, `alias` and `fromRequest`.
  */
 export function createServerClient(config?: ServerClientConfig): ServerClient {
   const host = config?.host ?? process.env.SPARKLYTICS_HOST ?? ''
   const websiteId = config?.websiteId ?? process.env.SPARKLYTICS_WEBSITE_ID ?? ''
   const silent = config?.silent ?? true
+  const pipeline: SendPipeline = { beforeSend: config?.beforeSend, redact: config?.redact }
+  const campaignParams = config?.campaignParams ?? DEFAULT_CAMPAIGN_PARAMS
 
   // Wrap a tracking call: either propagate the error or swallow it as a warning.
   const invoke = async (fn: () => Promise<void>): Promise<void> => {
@@ -434,13 +551,17 @@ export function createServerClient(config?: ServerClientConfig): ServerClient {
     request: Request,
   ): Partial<TrackServerBaseOptions> => {
     let url: string
+    let campaign: Record<string, string> = {}
     try {
-      url = new URL(request.url).pathname
+      const parsed = new URL(request.url)
+      url = parsed.pathname
+      campaign = readCampaign(parsed.search, campaignParams)
     } catch {
       url = request.url
     }
     return {
       url,
+      ...(Object.keys(campaign).length > 0 ? { campaign } : {}),
       userAgent: request.headers.get('user-agent') ?? undefined,
       ip: request.headers.get('x-forwarded-for')?.split(',')[0].trim() ?? undefined,
       referrer: request.headers.get('referer') ?? undefined,
@@ -448,24 +569,57 @@ export function createServerClient(config?: ServerClientConfig): ServerClient {
     }
   }
 
+  // Same as trackServerPageview / trackServerEvent, plus this client's beforeSend and redact.
+  const sendPageview = (options: TrackServerPageviewOptions) =>
+    _send(options, { type: 'pageview' }, pipeline)
+  const sendEvent = (options: TrackServerEventOptions) =>
+    _send(options, _eventFields(options), pipeline)
+  const sendIdentify = (
+    options: TrackServerBaseOptions,
+    traits: Record<string, unknown> | undefined,
+  ) =>
+    _send(options, _eventFields({ ...options, eventName: IDENTIFY_EVENT, eventData: traits }), pipeline)
+  const sendAlias = (options: TrackServerBaseOptions, previousId: string | undefined) =>
+    _send(
+      options,
+      _eventFields({ ...options, eventName: ALIAS_EVENT, eventData: previousId ? { previous_id: previousId } : undefined }),
+      pipeline,
+    )
+
   return {
     trackPageview: (options) =>
-      invoke(() => trackServerPageview({ host, websiteId, ...options })),
+      invoke(() => sendPageview({ host, websiteId, ...options })),
 
     trackEvent: (options) =>
-      invoke(() => trackServerEvent({ host, websiteId, ...options })),
+      invoke(() => sendEvent({ host, websiteId, ...options })),
+
+    identify: (visitorId, traits, options) =>
+      invoke(() => sendIdentify({ host, websiteId, url: '/', ...options, visitorId }, traits)),
+
+    alias: (visitorId, previousId, options) =>
+      invoke(() => sendAlias({ host, websiteId, url: '/', ...options, visitorId }, previousId)),
 
     fromRequest: (request: Request): BoundServerClient => {
       const requestDefaults = extractFromRequest(request)
       return {
         trackPageview: (options = {}) =>
           invoke(() =>
-            trackServerPageview({ host, websiteId, ...requestDefaults, ...options }),
+            sendPageview({ host, websiteId, ...requestDefaults, ...options }),
           ),
 
         trackEvent: (options) =>
           invoke(() =>
-            trackServerEvent({ host, websiteId, ...requestDefaults, ...options }),
+            sendEvent({ host, websiteId, ...requestDefaults, ...options }),
+          ),
+
+        identify: (visitorId, traits, options) =>
+          invoke(() =>
+            sendIdentify({ host, websiteId, url: '/', ...requestDefaults, ...options, visitorId }, traits),
+          ),
+
+        alias: (visitorId, previousId, options) =>
+          invoke(() =>
+            sendAlias({ host, websiteId, url: '/', ...requestDefaults, ...options, visitorId }, previousId),
           ),
       }
     },
@@ -634,26 +788,64 @@ export async function trackServerMiddleware(
 // Internal: shared POST logic
 // ============================================================
 
+/** Event names of the events sent by `identify()` and `alias()`, as on the client. */
+const IDENTIFY_EVENT = 'identify'
+const ALIAS_EVENT = 'alias'
+
 interface EventFields {
   type: 'pageview' | 'event'
   event_name?: string
   event_data?: Record<string, unknown>
 }
 
+/**
+ * A collect event as sent by the server helpers — the argument and return
+ * type of {@link ServerClientConfig.beforeSend}.
+ */
+export interface ServerCollectEvent extends EventFields, CampaignFields {
+  website_id: string
+  url: string
+  referrer?: string
+  language?: string
+  visitor_id?: string
+}
+
+/** Per-client hooks applied to each event by `_send`. */
+interface SendPipeline {
+  beforeSend?: (event: ServerCollectEvent) => ServerCollectEvent | null
+  redact?: RedactionRules
+}
+
+function _eventFields(options: TrackServerEventOptions): EventFields {
+  return {
+    type: 'event',
+    event_name: options.eventName,
+    ...(options.eventData !== undefined ? { event_data: options.eventData } : {}),
+  }
+}
+
 async function _send(
   base: TrackServerBaseOptions,
   fields: EventFields,
+  pipeline?: SendPipeline,
 ): Promise<void> {
   const endpoint = `${base.host.replace(/\/$/, '')}/api/collect`
 
-  const event: Record<string, unknown> = {
-    website_id: base.websiteId,
-    url: base.url,
-    ...(base.referrer ? { referrer: base.referrer } : {}),
-    ...(base.language ? { language: base.language } : {}),
-    ...(base.visitorId ? { visitor_id: base.visitorId } : {}),
-    ...fields,
-  }
+  const event = prepareEvent<ServerCollectEvent>(
+    {
+      website_id: base.websiteId,
+      url: base.url,
+      ...(base.referrer ? { referrer: base.referrer } : {}),
+      ...(base.language ? { language: base.language } : {}),
+      ...(base.visitorId ? { visitor_id: base.visitorId } : {}),
+      ...(base.campaign && fields.type === 'pageview' ? toCampaignFields(base.campaign) : {}),
+      ...fields,
+    },
+    pipeline?.beforeSend,
+    pipeline?.redact,
+  )
+  // Dropped by beforeSend
+  if (!event) return
 
   const headers: Record<string, string> = {
     'Content-Type': 'application/json',
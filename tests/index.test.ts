@@ -15,6 +15,10 @@ import React from 'react'
 
 vi.mock('next/navigation', () => ({
   usePathname: vi.fn().mockReturnValue('/'),
+  useParams: vi.fn().mockReturnValue({}),
+  // null = not rendered by the App Router (no layouts)
+  useSelectedLayoutSegments: vi.fn().mockReturnValue(null),
+  useSearchParams: vi.fn().mockReturnValue(new URLSearchParams()),
 }))
 
 vi.mock('next/router', () => ({
@@ -51,16 +55,25 @@ import {
   useSparklytics,
   TrackedLink,
   Track,
+  TrackImpression,
+  useTrackImpression,
+  PageProperties,
   usePageview,
   identify as standaloneIdentify,
   reset as standaloneReset,
+  setConsent as standaloneSetConsent,
+  register as standaloneRegister,
+  unregister as standaloneUnregister,
+  getConsent,
+  DEFAULT_CAMPAIGN_PARAMS,
+  type BatchEvent,
 } from '../src/index'
 
 // Import mocked next/router so tests can inspect registered handlers
 import nextRouter from 'next/router'
 
 // Import mocked usePathname so tests can change its return value
-import { usePathname } from 'next/navigation'
+import { usePathname, useParams, useSearchParams, useSelectedLayoutSegments } from 'next/navigation'
 
 // ──────────────────────────────────────────────────────────────
 // Test helpers
@@ -93,6 +106,20 @@ async function settle() {
   })
 }
 
+/**
+ * Events delivered through sendBeacon so far, in order. With `names`, only the
+ * events of those names — or of those types, e.g. `'pageview'`.
+ */
+async function sentEvents(...names: string[]) {
+  const events = (await Promise.all(
+    sendBeaconMock.mock.calls.map(async ([, blob]: [unknown, Blob]) =>
+      JSON.parse(await blob.text()) as Record<string, unknown>[],
+    ),
+  )).flat()
+  if (names.length === 0) return events
+  return events.filter((e) => names.includes(String(e['event_name'] ?? e['type'])))
+}
+
 // ──────────────────────────────────────────────────────────────
 // Setup / teardown
 // ──────────────────────────────────────────────────────────────
@@ -394,7 +421,8 @@ describe('SPA navigation tracking', () => {
     expect(events[0]['type']).toBe('pageview')
     expect(events[0]['url']).toBe('/dashboard')
     expect(events[0]['website_id']).toBe('site_1')
-    expect(events[0]['referrer']).toBe('https://google.com')
+    // The external referrer stays on the landing pageview
+    expect(events[0]['referrer']).toBe('http://localhost/')
   })
 
   it('test_popstate_navigation_tracked — enqueues pageview on back/forward', async () => {
@@ -691,7 +719,7 @@ describe('Event batching', () => {
     expect(events).toHaveLength(10)
   })
 
-  it('test_beforeunload_triggers_flush — beforeunload sends pending events via sendBeacon', async () => {
+  it('test_pagehide_triggers_flush — pagehide sends pending events via sendBeacon', async () => {
     renderProvider({ websiteId: 'site_1' })
     // Flush the initial pageview so the queue is clean
     await flushQueue()
@@ -705,9 +733,9 @@ describe('Event batching', () => {
       // Do NOT advance timers — the 500ms debounce has not fired yet
     })
 
-    // Dispatch beforeunload — flush() should send the pending pageview immediately via sendBeacon
+    // Dispatch pagehide — flush() should send the pending pageview immediately via sendBeacon
     await act(async () => {
-      window.dispatchEvent(new Event('beforeunload'))
+      window.dispatchEvent(new Event('pagehide'))
       await Promise.resolve()
       await Promise.resolve()
     })
@@ -720,6 +748,58 @@ describe('Event batching', () => {
     expect(events[0]['type']).toBe('pageview')
     expect(events[0]['url']).toBe('/leaving')
   })
+
+  it('test_visibility_hidden_triggers_flush — tab becoming hidden sends pending events', async () => {
+    renderProvider({ websiteId: 'site_1' })
+    await act(async () => {
+      Object.defineProperty(document, 'visibilityState', { value: 'hidden', configurable: true })
+      document.dispatchEvent(new Event('visibilitychange'))
+      await Promise.resolve()
+    })
+    Object.defineProperty(document, 'visibilityState', { value: 'visible', configurable: true })
+
+    // Initial pageview flushed without waiting for the 500ms debounce
+    expect(sendBeaconMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('test_no_beforeunload_listener — provider stays eligible for the back/forward cache', () => {
+    const addSpy = vi.spyOn(window, 'addEventListener')
+    renderProvider({ websiteId: 'site_1' })
+    expect(addSpy.mock.calls.map(([type]) => type)).not.toContain('beforeunload')
+    addSpy.mockRestore()
+  })
+
+  it('test_bfcache_restore_records_pageview — pageshow with persisted=true sends a flagged pageview', async () => {
+    renderProvider({ websiteId: 'site_1' })
+    await flushQueue()
+    sendBeaconMock.mockClear()
+
+    await act(async () => {
+      vi.advanceTimersByTime(1000)
+      window.dispatchEvent(Object.assign(new Event('pageshow'), { persisted: true }))
+    })
+    await flushQueue()
+
+    expect(sendBeaconMock).toHaveBeenCalledTimes(1)
+    const events = JSON.parse(await (sendBeaconMock.mock.calls[0][1] as Blob).text()) as Record<string, unknown>[]
+    expect(events[0]['type']).toBe('pageview')
+    expect(events[0]['url']).toBe('/')
+    expect(events[0]['bfcache']).toBe(true)
+  })
+
+  it('test_regular_pageshow_ignored — pageshow without persisted does not add a pageview', async () => {
+    renderProvider({ websiteId: 'site_1' })
+    await flushQueue()
+    sendBeaconMock.mockClear()
+
+    await act(async () => {
+      vi.advanceTimersByTime(1000)
+      window.dispatchEvent(Object.assign(new Event('pageshow'), { persisted: false }))
+    })
+    await flushQueue()
+
+    expect(sendBeaconMock).not.toHaveBeenCalled()
+  })
 })
 
 // ──────────────────────────────────────────────────────────────
@@ -2013,3 +2093,3032 @@ describe('usePageview hook', () => {
     vi.unstubAllEnvs()
   })
 })
+
+// ──────────────────────────────────────────────────────────────
+// Feature: offlineQueue — persisted delivery across reloads
+// ──────────────────────────────────────────────────────────────
+
+/** Let the offline store's promise chain (open → read → write) run to completion. */
+async function settleStorage() {
+  await act(async () => {
+    for (let i = 0; i < 20; i++) await Promise.resolve()
+  })
+}
+
+describe('offlineQueue prop', () => {
+  afterEach(() => {
+    localStorage.clear()
+  })
+
+  it('test_offline_queue_persists_after_failed_retry — batch is stored instead of dropped', async () => {
+    vi.stubGlobal('navigator', { doNotTrack: null })
+    fetchMock.mockRejectedValue(new Error('Network error'))
+
+    renderProvider({ websiteId: 'site_1', offlineQueue: true })
+    await flushQueue()
+    await act(async () => {
+      vi.advanceTimersByTime(2500)
+      await Promise.resolve()
+    })
+    await settleStorage()
+
+    const stored = JSON.parse(localStorage.getItem('_spl_queue')!) as { ts: number; event: Record<string, unknown> }[]
+    expect(stored).toHaveLength(1)
+    expect(stored[0].event['type']).toBe('pageview')
+    expect(stored[0].event['url']).toBe('/')
+  })
+
+  it('test_offline_queue_skips_send_when_offline — navigator.onLine=false persists without a request', async () => {
+    vi.stubGlobal('navigator', { sendBeacon: sendBeaconMock, doNotTrack: null, onLine: false })
+
+    renderProvider({ websiteId: 'site_1', offlineQueue: true })
+    await flushQueue()
+    await settleStorage()
+
+    expect(sendBeaconMock).not.toHaveBeenCalled()
+    expect(fetchMock).not.toHaveBeenCalled()
+    const stored = JSON.parse(localStorage.getItem('_spl_queue')!) as unknown[]
+    expect(stored).toHaveLength(1)
+  })
+
+  it('test_offline_queue_replays_on_mount — events from a previous page load are sent', async () => {
+    localStorage.setItem('_spl_queue', JSON.stringify([
+      { ts: Date.now(), event: { website_id: 'site_1', type: 'event', url: '/old', event_name: 'saved' } },
+    ]))
+
+    renderProvider({ websiteId: 'site_1', offlineQueue: true })
+    await settleStorage()
+    await flushQueue()
+
+    const events = await sentEvents()
+    expect(events.find((e) => e['event_name'] === 'saved')).toBeDefined()
+    expect(localStorage.getItem('_spl_queue')).toBeNull()
+  })
+
+  it('test_offline_queue_drops_expired_events — events older than maxAge are not replayed', async () => {
+    localStorage.setItem('_spl_queue', JSON.stringify([
+      { ts: Date.now() - 120_000, event: { website_id: 'site_1', type: 'event', url: '/old', event_name: 'stale' } },
+      { ts: Date.now() - 1_000, event: { website_id: 'site_1', type: 'event', url: '/old', event_name: 'fresh' } },
+    ]))
+
+    renderProvider({ websiteId: 'site_1', offlineQueue: { maxAge: 60_000 } })
+    await settleStorage()
+    await flushQueue()
+
+    const names = (await sentEvents()).map((e) => e['event_name'])
+    expect(names).toContain('fresh')
+    expect(names).not.toContain('stale')
+  })
+
+  it('test_failed_replay_keeps_timestamp — maxAge counts from when the event was first stored', async () => {
+    vi.stubGlobal('navigator', { sendBeacon: sendBeaconMock, doNotTrack: null, onLine: false })
+    const storedAt = Date.now() - 50_000
+    localStorage.setItem('_spl_queue', JSON.stringify([
+      { ts: storedAt, event: { website_id: 'site_1', type: 'event', url: '/old', event_name: 'saved' } },
+    ]))
+
+    renderProvider({ websiteId: 'site_1', offlineQueue: true })
+    await settleStorage()
+    await flushQueue()
+    await settleStorage()
+
+    const stored = JSON.parse(localStorage.getItem('_spl_queue')!) as { ts: number; event: Record<string, unknown> }[]
+    expect(stored.find((entry) => entry.event['event_name'] === 'saved')!.ts).toBe(storedAt)
+    expect(stored.find((entry) => entry.event['type'] === 'pageview')!.ts).toBeGreaterThan(storedAt)
+  })
+
+  it('test_offline_queue_replays_on_online_event — reconnecting sends persisted events', async () => {
+    renderProvider({ websiteId: 'site_1', offlineQueue: true })
+    await settleStorage()
+    await flushQueue()
+    sendBeaconMock.mockClear()
+
+    localStorage.setItem('_spl_queue', JSON.stringify([
+      { ts: Date.now(), event: { website_id: 'site_1', type: 'event', url: '/x', event_name: 'queued_offline' } },
+    ]))
+    await act(async () => {
+      window.dispatchEvent(new Event('online'))
+    })
+    await settleStorage()
+
+    expect(sendBeaconMock).toHaveBeenCalledTimes(1)
+    const events = JSON.parse(await (sendBeaconMock.mock.calls[0][1] as Blob).text()) as Record<string, unknown>[]
+    expect(events[0]['event_name']).toBe('queued_offline')
+  })
+
+  it('test_offline_queue_disabled_by_default — failed batches are not persisted', async () => {
+    vi.stubGlobal('navigator', { doNotTrack: null })
+    fetchMock.mockRejectedValue(new Error('Network error'))
+
+    renderProvider({ websiteId: 'site_1' })
+    await flushQueue()
+    await act(async () => {
+      vi.advanceTimersByTime(2500)
+      await Promise.resolve()
+    })
+    await settleStorage()
+
+    expect(localStorage.getItem('_spl_queue')).toBeNull()
+  })
+
+  it('test_hidden_tab_takes_over_retries — a retrying batch is stored once and its retry cancelled', async () => {
+    vi.stubGlobal('navigator', { doNotTrack: null })
+    fetchMock.mockRejectedValueOnce(new Error('Network error'))
+
+    renderProvider({ websiteId: 'site_1', offlineQueue: true })
+    await flushQueue()
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+
+    Object.defineProperty(document, 'visibilityState', { value: 'hidden', configurable: true })
+    await act(async () => {
+      document.dispatchEvent(new Event('visibilitychange'))
+    })
+    await settleStorage()
+    expect(JSON.parse(localStorage.getItem('_spl_queue')!) as unknown[]).toHaveLength(1)
+
+    await act(async () => {
+      vi.advanceTimersByTime(5000)
+      await Promise.resolve()
+    })
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+
+    Object.defineProperty(document, 'visibilityState', { value: 'visible', configurable: true })
+    await act(async () => {
+      document.dispatchEvent(new Event('visibilitychange'))
+    })
+    await settleStorage()
+
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    const events = JSON.parse(fetchMock.mock.calls[1][1].body as string) as Record<string, unknown>[]
+    expect(events.filter((e) => e['type'] === 'pageview')).toHaveLength(1)
+    expect(localStorage.getItem('_spl_queue')).toBeNull()
+  })
+})
+
+// ──────────────────────────────────────────────────────────────
+// Feature: retry policy — backoff, retryable statuses, Retry-After
+// ──────────────────────────────────────────────────────────────
+
+describe('retry prop', () => {
+  /** Advance fake timers by `ms` and let the resulting delivery promises settle. */
+  async function advance(ms: number) {
+    await act(async () => {
+      vi.advanceTimersByTime(ms)
+      await Promise.resolve()
+      await Promise.resolve()
+    })
+  }
+
+  afterEach(() => {
+    localStorage.clear()
+  })
+
+  it('test_retry_skips_permanent_4xx — a 400 response is not retried', async () => {
+    vi.stubGlobal('navigator', { doNotTrack: null })
+    fetchMock.mockResolvedValue(new Response('{}', { status: 400 }))
+
+    renderProvider({ websiteId: 'site_1' })
+    await flushQueue()
+    await advance(10_000)
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('test_retry_exponential_backoff — delays double from baseDelay up to maxAttempts', async () => {
+    vi.stubGlobal('navigator', { doNotTrack: null })
+    fetchMock.mockRejectedValue(new Error('Network error'))
+
+    renderProvider({ websiteId: 'site_1', retry: { maxAttempts: 4, baseDelay: 1000 } })
+    await flushQueue()
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+
+    await advance(1000)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    await advance(1999)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    await advance(1)
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+    await advance(4000)
+    expect(fetchMock).toHaveBeenCalledTimes(4)
+    await advance(60_000)
+    expect(fetchMock).toHaveBeenCalledTimes(4)
+  })
+
+  it('test_retry_max_delay_caps_backoff — no delay exceeds maxDelay', async () => {
+    vi.stubGlobal('navigator', { doNotTrack: null })
+    fetchMock.mockRejectedValue(new Error('Network error'))
+
+    renderProvider({ websiteId: 'site_1', retry: { maxAttempts: 3, baseDelay: 5000, maxDelay: 6000 } })
+    await flushQueue()
+    await advance(5000)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    await advance(6000)
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+  })
+
+  it('test_retry_honors_retry_after — 503 with Retry-After delays the retry', async () => {
+    vi.stubGlobal('navigator', { doNotTrack: null })
+    fetchMock
+      .mockResolvedValueOnce(new Response('{}', { status: 503, headers: { 'Retry-After': '10' } }))
+      .mockResolvedValue(new Response('{}', { status: 200 }))
+
+    renderProvider({ websiteId: 'site_1' })
+    await flushQueue()
+    await advance(2500)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    await advance(7500)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it('test_retry_jitter_shortens_delay — jitter reduces the delay by a random fraction', async () => {
+    vi.stubGlobal('navigator', { doNotTrack: null })
+    vi.spyOn(Math, 'random').mockReturnValue(0.5)
+    fetchMock.mockRejectedValue(new Error('Network error'))
+
+    renderProvider({ websiteId: 'site_1', retry: { baseDelay: 2000, jitter: 0.5 } })
+    await flushQueue()
+    await advance(1499)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    await advance(1)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    vi.mocked(Math.random).mockRestore()
+  })
+
+  it('test_retry_custom_retryable_statuses — statuses outside the list are permanent', async () => {
+    vi.stubGlobal('navigator', { doNotTrack: null })
+    fetchMock.mockResolvedValue(new Response('{}', { status: 429 }))
+
+    renderProvider({ websiteId: 'site_1', retry: { retryableStatuses: [503] } })
+    await flushQueue()
+    await advance(5000)
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('test_retry_after_beyond_max_delay — honored up to maxRetryAfter, not maxDelay', async () => {
+    vi.stubGlobal('navigator', { doNotTrack: null })
+    fetchMock
+      .mockResolvedValueOnce(new Response('{}', { status: 429, headers: { 'Retry-After': '120' } }))
+      .mockResolvedValue(new Response('{}', { status: 200 }))
+
+    renderProvider({ websiteId: 'site_1' })
+    await flushQueue()
+    await advance(119_999)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    await advance(1)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it('test_shared_backoff_holds_other_tabs — a backoff set by another tab delays this one', async () => {
+    vi.stubGlobal('navigator', { doNotTrack: null })
+    fetchMock.mockResolvedValue(new Response('{}', { status: 200 }))
+    localStorage.setItem('_spl_backoff', String(Date.now() + 8000))
+
+    renderProvider({ websiteId: 'site_1' })
+    await flushQueue()
+    expect(fetchMock).not.toHaveBeenCalled()
+
+    await advance(8000)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(localStorage.getItem('_spl_backoff')).toBeNull()
+  })
+
+  it('test_shared_backoff_written_on_failure — other tabs see how long to wait', async () => {
+    vi.stubGlobal('navigator', { doNotTrack: null })
+    fetchMock.mockResolvedValueOnce(new Response('{}', { status: 503, headers: { 'Retry-After': '60' } }))
+
+    renderProvider({ websiteId: 'site_1' })
+    await flushQueue()
+    expect(Number(localStorage.getItem('_spl_backoff'))).toBe(Date.now() + 60_000)
+  })
+
+  it('test_shared_backoff_holds_offline_replay — persisted events wait for the backoff to end', async () => {
+    localStorage.setItem('_spl_queue', JSON.stringify([
+      { ts: Date.now(), event: { website_id: 'site_1', type: 'event', url: '/old', event_name: 'saved' } },
+    ]))
+    localStorage.setItem('_spl_backoff', String(Date.now() + 5000))
+
+    renderProvider({ websiteId: 'site_1', offlineQueue: true })
+    await settleStorage()
+    await flushQueue()
+    expect(sendBeaconMock).not.toHaveBeenCalled()
+
+    await advance(5000)
+    await settleStorage()
+    await flushQueue()
+    const names = (await sentEvents()).map((e) => e['event_name'] ?? e['type'])
+    expect(names).toContain('saved')
+    expect(names).toContain('pageview')
+  })
+})
+
+// ──────────────────────────────────────────────────────────────
+// Feature: consent management — requireConsent / setConsent
+// ──────────────────────────────────────────────────────────────
+
+describe('requireConsent prop and setConsent()', () => {
+  afterEach(() => {
+    localStorage.clear()
+  })
+
+  it('test_consent_pending_holds_events — nothing is sent before a decision', async () => {
+    renderProvider({ websiteId: 'site_1', requireConsent: true })
+    await flushQueue()
+    expect(sendBeaconMock).not.toHaveBeenCalled()
+    expect(getConsent()).toBe('pending')
+  })
+
+  it('test_consent_granted_releases_held_events — held pageview is sent on grant', async () => {
+    renderProvider({ websiteId: 'site_1', requireConsent: true })
+    await flushQueue()
+
+    await act(async () => { standaloneSetConsent('granted') })
+    await flushQueue()
+
+    const events = await sentEvents()
+    expect(events).toHaveLength(1)
+    expect(events[0]['type']).toBe('pageview')
+    expect(getConsent()).toBe('granted')
+  })
+
+  it('test_consent_denied_discards_held_events — nothing is sent on deny, now or later', async () => {
+    let trackFn: ((name: string) => void) | undefined
+    function Consumer() {
+      const { track } = useSparklytics()
+      trackFn = (name: string) => track(name)
+      return null
+    }
+    renderProvider({ websiteId: 'site_1', requireConsent: true }, React.createElement(Consumer))
+    await flushQueue()
+
+    await act(async () => { standaloneSetConsent('denied') })
+    await act(async () => { trackFn!('after_deny') })
+    await flushQueue()
+
+    expect(sendBeaconMock).not.toHaveBeenCalled()
+    expect(getConsent()).toBe('denied')
+  })
+
+  it('test_consent_persisted_across_visits — stored grant applies on the next mount', async () => {
+    standaloneSetConsent('granted')
+    renderProvider({ websiteId: 'site_1', requireConsent: true })
+    await flushQueue()
+    expect(sendBeaconMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('test_consent_marketing_category_strips_utm — analytics-only consent omits UTM params', async () => {
+    Object.defineProperty(window, 'location', {
+      value: {
+        pathname: '/landing',
+        href: 'http://localhost/landing?utm_source=google',
+        search: '?utm_source=google',
+        origin: 'http://localhost',
+      },
+      writable: true,
+      configurable: true,
+    })
+    renderProvider({ websiteId: 'site_1', requireConsent: true })
+    await flushQueue()
+
+    await act(async () => { standaloneSetConsent({ analytics: true, marketing: false }) })
+    await flushQueue()
+
+    const events = await sentEvents()
+    expect(events[0]['type']).toBe('pageview')
+    expect(events[0]['utm_source']).toBeUndefined()
+    expect(sessionStorage.getItem('_spl_utm')).toBeNull()
+  })
+
+  it('test_consent_set_via_hook — useSparklytics().setConsent releases held events', async () => {
+    let setConsentFn: ((consent: 'granted' | 'denied') => void) | undefined
+    function Consumer() {
+      const { setConsent } = useSparklytics()
+      setConsentFn = setConsent
+      return null
+    }
+    renderProvider({ websiteId: 'site_1', requireConsent: true }, React.createElement(Consumer))
+    await flushQueue()
+
+    await act(async () => { setConsentFn!('granted') })
+    await flushQueue()
+
+    expect(sendBeaconMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('test_consent_not_required_by_default — stored denial is ignored without requireConsent', async () => {
+    standaloneSetConsent('denied')
+    renderProvider({ websiteId: 'site_1' })
+    await flushQueue()
+    expect(sendBeaconMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('test_consent_without_storage — the decision applies for the page when localStorage throws', async () => {
+    let trackFn: ((name: string) => void) | undefined
+    function Consumer() {
+      const { track } = useSparklytics()
+      trackFn = (name: string) => track(name)
+      return null
+    }
+    const unavailable = () => { throw new Error('SecurityError') }
+    vi.stubGlobal('localStorage', { getItem: unavailable, setItem: unavailable, removeItem: unavailable })
+
+    renderProvider({ websiteId: 'site_1', requireConsent: true }, React.createElement(Consumer))
+    await flushQueue()
+    await act(async () => { standaloneSetConsent('granted') })
+    await act(async () => { trackFn!('after_grant') })
+    await flushQueue()
+
+    const events = await sentEvents()
+    expect(events.map((e) => e['type'])).toContain('pageview')
+    expect(events.find((e) => e['event_name'] === 'after_grant')).toBeDefined()
+    expect(getConsent()).toBe('granted')
+
+    // Storage back — a stored decision replaces the in-memory one
+    vi.unstubAllGlobals()
+    standaloneSetConsent('denied')
+    expect(getConsent()).toBe('denied')
+  })
+
+  it('test_consent_pending_keeps_campaign_out_of_storage — UTMs are stored only after grant', async () => {
+    Object.defineProperty(window, 'location', {
+      value: {
+        pathname: '/landing',
+        href: 'http://localhost/landing?utm_source=google',
+        search: '?utm_source=google',
+        origin: 'http://localhost',
+      },
+      writable: true,
+      configurable: true,
+    })
+    renderProvider({ websiteId: 'site_1', requireConsent: true })
+    await flushQueue()
+    expect(sessionStorage.getItem('_spl_utm')).toBeNull()
+
+    await act(async () => { standaloneSetConsent('granted') })
+    await flushQueue()
+
+    const events = await sentEvents()
+    expect(events[0]['utm_source']).toBe('google')
+    expect(JSON.parse(sessionStorage.getItem('_spl_utm')!)).toEqual({ utm_source: 'google' })
+  })
+})
+
+// ──────────────────────────────────────────────────────────────
+// Feature: Core Web Vitals — trackWebVitals
+// ──────────────────────────────────────────────────────────────
+
+describe('trackWebVitals prop', () => {
+  /** Minimal PerformanceObserver stand-in: tests push entries per entry type. */
+  const observers = new Map<string, (entries: unknown[]) => void>()
+
+  class FakePerformanceObserver {
+    constructor(private readonly callback: (list: { getEntries(): unknown[] }) => void) {}
+    observe({ type }: { type: string }) {
+      observers.set(type, (entries) => this.callback({ getEntries: () => entries }))
+    }
+    disconnect() {}
+  }
+
+  function emitEntries(type: string, entries: unknown[]) {
+    act(() => { observers.get(type)?.(entries) })
+  }
+
+  beforeEach(() => {
+    observers.clear()
+    vi.stubGlobal('PerformanceObserver', FakePerformanceObserver)
+  })
+
+  it('test_web_vitals_load_metrics_reported — FCP and TTFB fire for the hard load', async () => {
+    renderProvider({ websiteId: 'site_1', trackWebVitals: true })
+    emitEntries('paint', [{ name: 'first-contentful-paint', startTime: 1234.4 }])
+    emitEntries('navigation', [{ responseStart: 950 }])
+    await flushQueue()
+
+    const events = await sentEvents('web_vitals')
+    const fcp = events.find((e) => (e['event_data'] as Record<string, unknown>)['metric'] === 'FCP')
+    const ttfb = events.find((e) => (e['event_data'] as Record<string, unknown>)['metric'] === 'TTFB')
+    expect(fcp!['url']).toBe('/')
+    expect(fcp!['event_data']).toEqual({ metric: 'FCP', value: 1234, rating: 'good', navigation_type: 'navigate' })
+    expect(ttfb!['event_data']).toEqual({ metric: 'TTFB', value: 950, rating: 'needs-improvement', navigation_type: 'navigate' })
+  })
+
+  it('test_web_vitals_reported_for_previous_url_on_soft_navigation — LCP and CLS attributed to the page they were measured on', async () => {
+    renderProvider({ websiteId: 'site_1', trackWebVitals: true })
+    emitEntries('largest-contentful-paint', [{ startTime: 1800 }, { startTime: 4200 }])
+    emitEntries('layout-shift', [
+      { value: 0.05, hadRecentInput: false, startTime: 100 },
+      { value: 0.2, hadRecentInput: true, startTime: 200 },
+    ])
+
+    await act(async () => {
+      ;(window.location as { pathname: string }).pathname = '/next'
+      history.pushState({}, '', '/next')
+    })
+    await flushQueue()
+
+    const events = await sentEvents('web_vitals')
+    const lcp = events.find((e) => (e['event_data'] as Record<string, unknown>)['metric'] === 'LCP')
+    const cls = events.find((e) => (e['event_data'] as Record<string, unknown>)['metric'] === 'CLS')
+    expect(lcp!['url']).toBe('/')
+    expect(lcp!['event_data']).toMatchObject({ value: 4200, rating: 'poor' })
+    expect(cls!['url']).toBe('/')
+    expect(cls!['event_data']).toMatchObject({ value: 0.05, rating: 'good' })
+  })
+
+  it('test_web_vitals_soft_navigation_inp — INP measured on an App Router route is tagged soft-navigation', async () => {
+    const mockedUsePathname = vi.mocked(usePathname)
+    mockedUsePathname.mockReturnValue('/')
+    const { rerender } = renderProvider({ websiteId: 'site_1', trackWebVitals: true })
+    await flushQueue()
+
+    mockedUsePathname.mockReturnValue('/pricing')
+    ;(window.location as { pathname: string }).pathname = '/pricing'
+    rerender(React.createElement(SparklyticsProvider, { websiteId: 'site_1', trackWebVitals: true }, null))
+    emitEntries('event', [{ interactionId: 7, duration: 320, startTime: performance.now() + 10 }])
+
+    await act(async () => {
+      window.dispatchEvent(new Event('pagehide'))
+    })
+    await flushQueue()
+    mockedUsePathname.mockReturnValue('/')
+
+    const inp = (await sentEvents('web_vitals')).find((e) => (e['event_data'] as Record<string, unknown>)['metric'] === 'INP')
+    expect(inp!['url']).toBe('/pricing')
+    expect(inp!['event_data']).toEqual({
+      metric: 'INP',
+      value: 320,
+      rating: 'needs-improvement',
+      navigation_type: 'soft-navigation',
+    })
+  })
+
+  it('test_web_vitals_reported_on_hidden — sent when the tab is hidden, changes after a return as updates', async () => {
+    renderProvider({ websiteId: 'site_1', trackWebVitals: true })
+    await flushQueue()
+    emitEntries('largest-contentful-paint', [{ startTime: 1800 }])
+    emitEntries('layout-shift', [{ value: 0.05, hadRecentInput: false, startTime: 100 }])
+
+    await act(async () => {
+      Object.defineProperty(document, 'visibilityState', { value: 'hidden', configurable: true })
+      document.dispatchEvent(new Event('visibilitychange'))
+    })
+    await flushQueue()
+    Object.defineProperty(document, 'visibilityState', { value: 'visible', configurable: true })
+    expect((await sentEvents('web_vitals')).map((e) => e['event_data'])).toEqual([
+      { metric: 'LCP', value: 1800, rating: 'good', navigation_type: 'navigate' },
+      { metric: 'CLS', value: 0.05, rating: 'good', navigation_type: 'navigate' },
+    ])
+
+    // Back on the page: more layout shifts, and an LCP entry the browser would no longer emit
+    emitEntries('largest-contentful-paint', [{ startTime: 5000 }])
+    emitEntries('layout-shift', [{ value: 0.2, hadRecentInput: false, startTime: 600 }])
+    await act(async () => {
+      window.dispatchEvent(new Event('pagehide'))
+    })
+    await flushQueue()
+
+    const events = await sentEvents('web_vitals')
+    expect(events).toHaveLength(3)
+    expect(events[2]['url']).toBe('/')
+    expect(events[2]['event_data']).toEqual({
+      metric: 'CLS',
+      value: 0.25,
+      rating: 'needs-improvement',
+      navigation_type: 'navigate',
+      update: true,
+    })
+  })
+
+  it('test_web_vitals_disabled_by_default — no web_vitals events without the prop', async () => {
+    renderProvider({ websiteId: 'site_1' })
+    emitEntries('paint', [{ name: 'first-contentful-paint', startTime: 500 }])
+    await flushQueue()
+    expect(await sentEvents('web_vitals')).toHaveLength(0)
+  })
+})
+
+// ──────────────────────────────────────────────────────────────
+// Feature: client-side sessions — trackSessions
+// ──────────────────────────────────────────────────────────────
+
+describe('trackSessions prop', () => {
+  function Consumer({ onTrack }: { onTrack: (fn: (name: string) => void) => void }) {
+    const { track } = useSparklytics()
+    onTrack((name: string) => track(name))
+    return null
+  }
+
+  it('test_session_start_emitted_with_entry_page — first event starts a session', async () => {
+    Object.defineProperty(window, 'location', {
+      value: {
+        pathname: '/landing',
+        href: 'http://localhost/landing?utm_source=newsletter',
+        search: '?utm_source=newsletter',
+        origin: 'http://localhost',
+      },
+      writable: true,
+      configurable: true,
+    })
+    renderProvider({ websiteId: 'site_1', trackSessions: true })
+    await flushQueue()
+
+    const events = await sentEvents()
+    expect(events).toHaveLength(2)
+    expect(events[0]['event_name']).toBe('session_start')
+    expect(events[0]['event_data']).toEqual({ entry_page: '/landing', utm_source: 'newsletter' })
+    expect(events[1]['type']).toBe('pageview')
+    expect(events[1]['session_id']).toBe(events[0]['session_id'])
+    expect(typeof events[1]['session_id']).toBe('string')
+  })
+
+  it('test_session_id_reused_within_timeout — later events share the session', async () => {
+    let trackFn: ((name: string) => void) | undefined
+    renderProvider(
+      { websiteId: 'site_1', trackSessions: true },
+      React.createElement(Consumer, { onTrack: (fn) => { trackFn = fn } }),
+    )
+    await flushQueue()
+    await act(async () => {
+      vi.advanceTimersByTime(10 * 60 * 1000)
+      trackFn!('later')
+    })
+    await flushQueue()
+
+    const events = await sentEvents()
+    expect(events.filter((e) => e['event_name'] === 'session_start')).toHaveLength(1)
+    const later = events.find((e) => e['event_name'] === 'later')
+    expect(later!['session_id']).toBe(events[0]['session_id'])
+  })
+
+  it('test_session_rotates_after_inactivity — event after the timeout starts a new session', async () => {
+    let trackFn: ((name: string) => void) | undefined
+    renderProvider(
+      { websiteId: 'site_1', trackSessions: { timeout: 60_000 } },
+      React.createElement(Consumer, { onTrack: (fn) => { trackFn = fn } }),
+    )
+    await flushQueue()
+    await act(async () => {
+      vi.setSystemTime(Date.now() + 61_000)
+      trackFn!('after_idle')
+    })
+    await flushQueue()
+
+    const events = await sentEvents()
+    const starts = events.filter((e) => e['event_name'] === 'session_start')
+    expect(starts).toHaveLength(2)
+    expect(starts[0]['session_id']).not.toBe(starts[1]['session_id'])
+    const afterIdle = events.find((e) => e['event_name'] === 'after_idle')
+    expect(afterIdle!['session_id']).toBe(starts[1]['session_id'])
+  })
+
+  it('test_session_rotates_on_campaign_change — landing with new UTMs starts a new session', async () => {
+    renderProvider({ websiteId: 'site_1', trackSessions: true })
+    await flushQueue()
+
+    await act(async () => {
+      Object.defineProperty(window, 'location', {
+        value: {
+          pathname: '/promo',
+          href: 'http://localhost/promo?utm_campaign=spring',
+          search: '?utm_campaign=spring',
+          origin: 'http://localhost',
+        },
+        writable: true,
+        configurable: true,
+      })
+      history.pushState({}, '', '/promo?utm_campaign=spring')
+    })
+    await flushQueue()
+
+    const starts = await sentEvents('session_start')
+    expect(starts).toHaveLength(2)
+    expect(starts[1]['event_data']).toEqual({ entry_page: '/promo', utm_campaign: 'spring' })
+  })
+
+  it('test_sessions_disabled_by_default — no session_id or session_start without the prop', async () => {
+    renderProvider({ websiteId: 'site_1' })
+    await flushQueue()
+    const events = await sentEvents()
+    expect(events).toHaveLength(1)
+    expect(events[0]['session_id']).toBeUndefined()
+  })
+})
+
+// ──────────────────────────────────────────────────────────────
+// Feature: engaged time and page_leave — trackEngagement
+// ──────────────────────────────────────────────────────────────
+
+describe('trackEngagement prop', () => {
+  function setVisibility(state: 'visible' | 'hidden') {
+    Object.defineProperty(document, 'visibilityState', { value: state, configurable: true })
+    document.dispatchEvent(new Event('visibilitychange'))
+  }
+
+  afterEach(() => {
+    Object.defineProperty(document, 'visibilityState', { value: 'visible', configurable: true })
+  })
+
+  it('test_page_leave_on_spa_navigation — previous URL gets one page_leave with engaged time', async () => {
+    renderProvider({ websiteId: 'site_1', trackEngagement: true })
+    await act(async () => {
+      vi.advanceTimersByTime(5000)
+      window.dispatchEvent(new Event('pointerdown'))
+      vi.advanceTimersByTime(3000)
+      ;(window.location as { pathname: string }).pathname = '/next'
+      history.pushState({}, '', '/next')
+    })
+    await flushQueue()
+
+    const leaves = await sentEvents('page_leave')
+    expect(leaves).toHaveLength(1)
+    expect(leaves[0]['url']).toBe('/')
+    expect(leaves[0]['event_data']).toEqual({ duration_ms: 8000, max_scroll_depth: 100 })
+  })
+
+  it('test_page_leave_excludes_idle_time — engaged time stops after idleTimeout without input', async () => {
+    renderProvider({ websiteId: 'site_1', trackEngagement: { idleTimeout: 10_000 } })
+    await act(async () => {
+      vi.advanceTimersByTime(60_000)
+      setVisibility('hidden')
+    })
+
+    const leaves = await sentEvents('page_leave')
+    expect(leaves).toHaveLength(1)
+    expect((leaves[0]['event_data'] as Record<string, unknown>)['duration_ms']).toBe(10_000)
+  })
+
+  it('test_page_leave_on_hidden_flushes_immediately — no debounce wait when the tab is hidden', async () => {
+    renderProvider({ websiteId: 'site_1', trackEngagement: true })
+    await flushQueue()
+    sendBeaconMock.mockClear()
+
+    await act(async () => {
+      setVisibility('hidden')
+      await Promise.resolve()
+    })
+
+    expect(sendBeaconMock).toHaveBeenCalledTimes(1)
+    expect(await sentEvents('page_leave')).toHaveLength(1)
+  })
+
+  it('test_page_leave_exactly_once — hidden followed by pagehide and navigation sends one leave per pageview', async () => {
+    renderProvider({ websiteId: 'site_1', trackEngagement: true })
+    await act(async () => {
+      setVisibility('hidden')
+      window.dispatchEvent(new Event('pagehide'))
+    })
+    await act(async () => {
+      setVisibility('visible')
+      ;(window.location as { pathname: string }).pathname = '/second'
+      history.pushState({}, '', '/second')
+      window.dispatchEvent(new Event('pagehide'))
+    })
+    await flushQueue()
+
+    const leaves = await sentEvents('page_leave')
+    expect(leaves.map((e) => e['url'])).toEqual(['/', '/second'])
+  })
+
+  it('test_page_leave_after_return — engaged time after coming back to a hidden tab is a continuation', async () => {
+    renderProvider({ websiteId: 'site_1', trackEngagement: true })
+    await act(async () => {
+      vi.advanceTimersByTime(4000)
+      setVisibility('hidden')
+      vi.advanceTimersByTime(60_000)
+      setVisibility('visible')
+      vi.advanceTimersByTime(3000)
+      ;(window.location as { pathname: string }).pathname = '/next'
+      history.pushState({}, '', '/next')
+    })
+    await flushQueue()
+
+    const leaves = await sentEvents('page_leave')
+    expect(leaves.map((e) => e['event_data'])).toEqual([
+      { duration_ms: 4000, max_scroll_depth: 100 },
+      { duration_ms: 3000, max_scroll_depth: 100, continuation: true },
+    ])
+    expect(leaves.every((e) => e['url'] === '/')).toBe(true)
+  })
+
+  it('test_inline_options_stable — re-rendering with equal inline objects sends no second pageview', async () => {
+    const props = () => ({
+      websiteId: 'site_1',
+      trackEngagement: { idleTimeout: 10_000 },
+      trackDownloads: ['pdf'],
+      trackErrors: { maxPerPage: 5 },
+      trackFrustration: { rageClicks: 4 },
+      trackScrollDepth: [50, 100],
+    })
+    const pushState = history.pushState
+    const { rerender } = renderProvider(props())
+    const patched = history.pushState
+    expect(patched).not.toBe(pushState)
+    rerender(React.createElement(SparklyticsProvider, props(), null))
+    rerender(React.createElement(SparklyticsProvider, props(), null))
+    await flushQueue()
+
+    const events = await sentEvents()
+    expect(events.filter((e) => e['type'] === 'pageview')).toHaveLength(1)
+    expect(events.filter((e) => e['event_name'] === 'page_leave')).toHaveLength(0)
+    expect(history.pushState).toBe(patched)
+  })
+
+  it('test_engagement_disabled_by_default — no page_leave without the prop', async () => {
+    renderProvider({ websiteId: 'site_1' })
+    await act(async () => {
+      window.dispatchEvent(new Event('pagehide'))
+    })
+    await flushQueue()
+    expect(await sentEvents('page_leave')).toHaveLength(0)
+  })
+})
+
+// ──────────────────────────────────────────────────────────────
+// Feature: reliable outbound delivery — trackLinks / TrackedLink
+// ──────────────────────────────────────────────────────────────
+
+describe('outbound link delivery', () => {
+  function clickAnchor(attrs: Record<string, string>, text = 'Go') {
+    const anchor = document.createElement('a')
+    for (const [key, value] of Object.entries(attrs)) anchor.setAttribute(key, value)
+    anchor.textContent = text
+    document.body.appendChild(anchor)
+    const event = new MouseEvent('click', { bubbles: true, cancelable: true, button: 0 })
+    anchor.dispatchEvent(event)
+    anchor.remove()
+    return event
+  }
+
+  it('test_outbound_click_flushes_immediately — external link_click sent without waiting for the debounce', async () => {
+    renderProvider({ websiteId: 'site_1', trackLinks: true })
+    await flushQueue()
+    sendBeaconMock.mockClear()
+
+    await act(async () => {
+      clickAnchor({ href: 'https://partner.example.com/offer' })
+      await Promise.resolve()
+    })
+
+    expect(sendBeaconMock).toHaveBeenCalledTimes(1)
+    const events = JSON.parse(await (sendBeaconMock.mock.calls[0][1] as Blob).text()) as Record<string, unknown>[]
+    expect(events[0]['event_name']).toBe('link_click')
+  })
+
+  it('test_download_click_flushes_immediately — same-origin download anchors are not debounced', async () => {
+    renderProvider({ websiteId: 'site_1', trackLinks: true })
+    await flushQueue()
+    sendBeaconMock.mockClear()
+
+    await act(async () => {
+      clickAnchor({ href: '/files/report.pdf', download: '' })
+      await Promise.resolve()
+    })
+
+    expect(sendBeaconMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('test_internal_click_still_debounced — internal link_click waits for the batch timer', async () => {
+    renderProvider({ websiteId: 'site_1', trackLinks: true })
+    await flushQueue()
+    sendBeaconMock.mockClear()
+
+    await act(async () => {
+      clickAnchor({ href: '/pricing' })
+      await Promise.resolve()
+    })
+    expect(sendBeaconMock).not.toHaveBeenCalled()
+  })
+
+  it('test_outbound_delay_without_beacon — navigation is held until the fetch completes', async () => {
+    vi.stubGlobal('navigator', { doNotTrack: null })
+    let resolveFetch: (response: Response) => void = () => {}
+    renderProvider({ websiteId: 'site_1', trackLinks: 'outbound', outboundDelay: 300 })
+    await flushQueue()
+    fetchMock.mockImplementation(() => new Promise<Response>((resolve) => { resolveFetch = resolve }))
+
+    let event: MouseEvent | undefined
+    await act(async () => {
+      event = clickAnchor({ href: 'https://docs.example.com/' })
+    })
+    expect(event!.defaultPrevented).toBe(true)
+    expect(window.location.href).toBe('http://localhost/')
+
+    await act(async () => {
+      resolveFetch(new Response('{}', { status: 200 }))
+      await Promise.resolve()
+      await Promise.resolve()
+      await Promise.resolve()
+    })
+    expect(window.location.href).toBe('https://docs.example.com/')
+  })
+
+  it('test_outbound_delay_is_bounded — navigation proceeds after outboundDelay even if the request hangs', async () => {
+    vi.stubGlobal('navigator', { doNotTrack: null })
+    renderProvider({ websiteId: 'site_1', trackLinks: 'outbound', outboundDelay: 300 })
+    await flushQueue()
+    fetchMock.mockImplementation(() => new Promise<Response>(() => {}))
+
+    await act(async () => {
+      clickAnchor({ href: 'https://docs.example.com/' })
+    })
+    expect(window.location.href).toBe('http://localhost/')
+    await act(async () => { vi.advanceTimersByTime(300) })
+    expect(window.location.href).toBe('https://docs.example.com/')
+  })
+
+  it('test_outbound_new_tab_not_delayed — target=_blank clicks keep their default behaviour', async () => {
+    vi.stubGlobal('navigator', { doNotTrack: null })
+    renderProvider({ websiteId: 'site_1', trackLinks: 'outbound', outboundDelay: 300 })
+    await flushQueue()
+
+    // Record what the SDK decided, then stop the navigation so the test stays offline
+    let preventedBySdk: boolean | undefined
+    const stopNavigation = (e: Event) => {
+      preventedBySdk = e.defaultPrevented
+      e.preventDefault()
+    }
+    document.addEventListener('click', stopNavigation)
+    await act(async () => {
+      clickAnchor({ href: 'https://docs.example.com/', target: '_blank' })
+    })
+    document.removeEventListener('click', stopNavigation)
+    expect(preventedBySdk).toBe(false)
+  })
+
+  it('test_tracked_link_off_origin_flushes_immediately — TrackedLink to another origin is not debounced', async () => {
+    const { getByText } = renderProvider(
+      { websiteId: 'site_1' },
+      React.createElement(TrackedLink, { href: 'https://github.com/Sparklytics' }, 'GitHub'),
+    )
+    await flushQueue()
+    sendBeaconMock.mockClear()
+
+    await act(async () => {
+      getByText('GitHub').click()
+      await Promise.resolve()
+    })
+
+    expect(sendBeaconMock).toHaveBeenCalledTimes(1)
+    const events = JSON.parse(await (sendBeaconMock.mock.calls[0][1] as Blob).text()) as Record<string, unknown>[]
+    expect(events[0]['event_data']).toEqual({ href: 'https://github.com/Sparklytics' })
+  })
+})
+
+// ──────────────────────────────────────────────────────────────
+// Feature: file download tracking — trackDownloads
+// ──────────────────────────────────────────────────────────────
+
+describe('trackDownloads prop', () => {
+  function clickAnchor(attrs: Record<string, string>) {
+    const anchor = document.createElement('a')
+    for (const [key, value] of Object.entries(attrs)) anchor.setAttribute(key, value)
+    anchor.textContent = 'Download'
+    document.body.appendChild(anchor)
+    anchor.dispatchEvent(new MouseEvent('click', { bubbles: true, cancelable: true, button: 0 }))
+    anchor.remove()
+  }
+
+  it('test_download_by_extension — .pdf link fires file_download with name and extension', async () => {
+    renderProvider({ websiteId: 'site_1', trackDownloads: true })
+    await flushQueue()
+    sendBeaconMock.mockClear()
+
+    await act(async () => {
+      clickAnchor({ href: '/assets/Whitepaper%202025.PDF' })
+      await Promise.resolve()
+    })
+
+    const events = await sentEvents()
+    expect(events).toHaveLength(1)
+    expect(events[0]['event_name']).toBe('file_download')
+    expect(events[0]['event_data']).toEqual({
+      file_name: 'Whitepaper 2025.PDF',
+      extension: 'pdf',
+      same_origin: true,
+    })
+  })
+
+  it('test_download_by_attribute — download attribute wins and marks cross-origin files', async () => {
+    renderProvider({ websiteId: 'site_1', trackDownloads: true })
+    await flushQueue()
+    sendBeaconMock.mockClear()
+
+    await act(async () => {
+      clickAnchor({ href: 'https://cdn.example.com/get?id=42', download: 'report.csv' })
+      await Promise.resolve()
+    })
+
+    const events = await sentEvents()
+    expect(events[0]['event_data']).toEqual({ file_name: 'report.csv', extension: 'csv', same_origin: false })
+  })
+
+  it('test_download_custom_extensions — only the configured extensions are tracked', async () => {
+    renderProvider({ websiteId: 'site_1', trackDownloads: ['epub'] })
+    await flushQueue()
+    sendBeaconMock.mockClear()
+
+    await act(async () => {
+      clickAnchor({ href: '/books/guide.epub' })
+      clickAnchor({ href: '/docs/guide.pdf' })
+    })
+    await flushQueue()
+
+    const names = (await sentEvents()).map((e) => (e['event_data'] as Record<string, unknown>)['file_name'])
+    expect(names).toEqual(['guide.epub'])
+  })
+
+  it('test_download_not_duplicated_as_link_click — trackLinks skips anchors reported as downloads', async () => {
+    renderProvider({ websiteId: 'site_1', trackLinks: true, trackDownloads: true })
+    await flushQueue()
+    sendBeaconMock.mockClear()
+
+    await act(async () => {
+      clickAnchor({ href: '/files/pricing.pdf' })
+    })
+    await flushQueue()
+
+    const names = (await sentEvents()).map((e) => e['event_name'])
+    expect(names).toEqual(['file_download'])
+  })
+
+  it('test_downloads_disabled_by_default — no file_download without the prop', async () => {
+    renderProvider({ websiteId: 'site_1' })
+    await flushQueue()
+    sendBeaconMock.mockClear()
+
+    await act(async () => {
+      clickAnchor({ href: '/files/pricing.pdf' })
+    })
+    await flushQueue()
+    expect(sendBeaconMock).not.toHaveBeenCalled()
+  })
+})
+
+// ──────────────────────────────────────────────────────────────
+// Feature: element impressions — <TrackImpression> / useTrackImpression
+// ──────────────────────────────────────────────────────────────
+
+describe('TrackImpression component and useTrackImpression hook', () => {
+  /** Minimal IntersectionObserver stand-in: tests set the ratio per element. */
+  const observed = new Map<Element, (ratio: number) => void>()
+
+  class FakeIntersectionObserver {
+    constructor(private readonly callback: (entries: Partial<IntersectionObserverEntry>[]) => void) {}
+    observe(target: Element) {
+      observed.set(target, (ratio) =>
+        this.callback([{ target, isIntersecting: ratio > 0, intersectionRatio: ratio }]))
+    }
+    disconnect() {
+      observed.clear()
+    }
+  }
+
+  function setRatio(ratio: number) {
+    act(() => { observed.forEach((emit) => emit(ratio)) })
+  }
+
+  beforeEach(() => {
+    observed.clear()
+    vi.stubGlobal('IntersectionObserver', FakeIntersectionObserver)
+  })
+
+  function renderImpression(props: Partial<React.ComponentProps<typeof TrackImpression>> = {}) {
+    return renderProvider(
+      { websiteId: 'site_1' },
+      React.createElement(
+        TrackImpression,
+        { event: 'pricing_seen', data: { plan: 'pro' }, ...props },
+        React.createElement('section', {}, 'Pricing'),
+      ),
+    )
+  }
+
+  it('test_impression_fires_after_min_duration — visible for minDuration fires once with data', async () => {
+    renderImpression({ minDuration: 2000 })
+    setRatio(0.6)
+    await act(async () => { vi.advanceTimersByTime(1399) })
+    await flushQueue()
+    expect(await sentEvents('pricing_seen')).toHaveLength(0)
+
+    await act(async () => { vi.advanceTimersByTime(1) })
+    await flushQueue()
+    const events = await sentEvents('pricing_seen')
+    expect(events).toHaveLength(1)
+    expect(events[0]['event_data']).toEqual({ plan: 'pro' })
+  })
+
+  it('test_impression_below_threshold_ignored — partially visible element never fires', async () => {
+    renderImpression({ threshold: 0.75 })
+    setRatio(0.5)
+    await act(async () => { vi.advanceTimersByTime(5000) })
+    await flushQueue()
+    expect(await sentEvents('pricing_seen')).toHaveLength(0)
+  })
+
+  it('test_impression_clock_restarts_when_scrolled_away — interrupted visibility does not count', async () => {
+    renderImpression({ minDuration: 3000 })
+    setRatio(1)
+    await act(async () => { vi.advanceTimersByTime(2000) })
+    setRatio(0)
+    setRatio(1)
+    await act(async () => { vi.advanceTimersByTime(2000) })
+    await flushQueue()
+    expect(await sentEvents('pricing_seen')).toHaveLength(0)
+
+    await act(async () => { vi.advanceTimersByTime(400) })
+    await flushQueue()
+    expect(await sentEvents('pricing_seen')).toHaveLength(1)
+  })
+
+  it('test_impression_paused_while_tab_hidden — hidden tab does not accumulate time', async () => {
+    renderImpression()
+    setRatio(1)
+    Object.defineProperty(document, 'visibilityState', { value: 'hidden', configurable: true })
+    act(() => { document.dispatchEvent(new Event('visibilitychange')) })
+    await act(async () => { vi.advanceTimersByTime(5000) })
+    await flushQueue()
+    expect(await sentEvents('pricing_seen')).toHaveLength(0)
+
+    Object.defineProperty(document, 'visibilityState', { value: 'visible', configurable: true })
+    act(() => { document.dispatchEvent(new Event('visibilitychange')) })
+    await act(async () => { vi.advanceTimersByTime(1000) })
+    await flushQueue()
+    expect(await sentEvents('pricing_seen')).toHaveLength(1)
+  })
+
+  it('test_impression_once_per_pageview — re-entering the viewport only fires again after a pageview', async () => {
+    const { getByText } = renderProvider(
+      { websiteId: 'site_1' },
+      React.createElement(() => {
+        const { pageview } = useSparklytics()
+        return React.createElement(
+          React.Fragment,
+          {},
+          React.createElement(
+            TrackImpression,
+            { event: 'pricing_seen', minDuration: 0 },
+            React.createElement('section', {}, 'Pricing'),
+          ),
+          React.createElement('button', { onClick: () => pageview('/next') }, 'next'),
+        )
+      }),
+    )
+    setRatio(1)
+    await act(async () => { vi.advanceTimersByTime(0) })
+    setRatio(0)
+    setRatio(1)
+    await act(async () => { vi.advanceTimersByTime(0) })
+    await flushQueue()
+    expect(await sentEvents('pricing_seen')).toHaveLength(1)
+
+    act(() => { getByText('next').click() })
+    await act(async () => { vi.advanceTimersByTime(0) })
+    await flushQueue()
+    expect(await sentEvents('pricing_seen')).toHaveLength(2)
+  })
+
+  it('test_use_track_impression_hook — observes the element behind a caller-owned ref', async () => {
+    function Banner() {
+      const ref = React.useRef<HTMLDivElement>(null)
+      useTrackImpression(ref, { event: 'pricing_seen', minDuration: 500 })
+      return React.createElement('div', { ref }, 'Banner')
+    }
+    renderProvider({ websiteId: 'site_1' }, React.createElement(Banner))
+    setRatio(0.5)
+    await act(async () => { vi.advanceTimersByTime(500) })
+    await flushQueue()
+    expect(await sentEvents('pricing_seen')).toHaveLength(1)
+  })
+
+  it('test_track_impression_preserves_child_ref — existing ref on the child still receives the node', () => {
+    const childRef = React.createRef<HTMLElement>()
+    renderProvider(
+      { websiteId: 'site_1' },
+      React.createElement(
+        TrackImpression,
+        { event: 'pricing_seen' },
+        React.createElement('section', { ref: childRef }, 'Pricing'),
+      ),
+    )
+    expect(childRef.current?.tagName).toBe('SECTION')
+  })
+
+  it('test_impression_noop_without_intersection_observer — unsupported browsers render without error', async () => {
+    vi.stubGlobal('IntersectionObserver', undefined)
+    renderImpression()
+    await act(async () => { vi.advanceTimersByTime(5000) })
+    await flushQueue()
+    expect(await sentEvents('pricing_seen')).toHaveLength(0)
+  })
+})
+
+// ──────────────────────────────────────────────────────────────
+// Feature: JavaScript error tracking — trackErrors
+// ──────────────────────────────────────────────────────────────
+
+describe('trackErrors prop', () => {
+  function throwUncaught(message: string, lineno = 10) {
+    act(() => {
+      window.dispatchEvent(new ErrorEvent('error', {
+        message,
+        filename: 'http://localhost/_next/static/chunks/app.js',
+        lineno,
+        colno: 5,
+        error: new Error(message),
+      }))
+    })
+  }
+
+  it('test_uncaught_error_reported — js_error carries message, location and a fingerprint', async () => {
+    renderProvider({ websiteId: 'site_1', trackErrors: true })
+    throwUncaught('Uncaught TypeError: x is undefined')
+    await flushQueue()
+
+    const events = await sentEvents('js_error')
+    expect(events).toHaveLength(1)
+    expect(events[0]['url']).toBe('/')
+    expect(events[0]['event_data']).toEqual({
+      message: 'Uncaught TypeError: x is undefined',
+      source: 'http://localhost/_next/static/chunks/app.js',
+      line: 10,
+      column: 5,
+      fingerprint: expect.stringMatching(/^[0-9a-f]{8}$/),
+      kind: 'error',
+    })
+  })
+
+  it('test_unhandled_rejection_reported — location is read from the stack trace', async () => {
+    renderProvider({ websiteId: 'site_1', trackErrors: true })
+    const reason = new TypeError('failed to fetch')
+    reason.stack = 'TypeError: failed to fetch\n    at load (http://localhost/_next/static/chunks/page.js:42:17)'
+    act(() => {
+      window.dispatchEvent(Object.assign(new Event('unhandledrejection'), { reason }))
+    })
+    await flushQueue()
+
+    const events = await sentEvents('js_error')
+    expect(events[0]['event_data']).toMatchObject({
+      message: 'TypeError: failed to fetch',
+      source: 'http://localhost/_next/static/chunks/page.js',
+      line: 42,
+      column: 17,
+      kind: 'unhandledrejection',
+    })
+  })
+
+  it('test_identical_errors_deduped_per_page — a render loop reports once until the next pageview', async () => {
+    const { getByText } = renderProvider(
+      { websiteId: 'site_1', trackErrors: true },
+      React.createElement(() => {
+        const { pageview } = useSparklytics()
+        return React.createElement('button', { onClick: () => pageview('/next') }, 'next')
+      }),
+    )
+    for (let i = 0; i < 50; i++) throwUncaught('Maximum update depth exceeded')
+    throwUncaught('Maximum update depth exceeded', 11)
+    await flushQueue()
+    expect(await sentEvents('js_error')).toHaveLength(2)
+
+    act(() => { getByText('next').click() })
+    throwUncaught('Maximum update depth exceeded')
+    await flushQueue()
+    expect(await sentEvents('js_error')).toHaveLength(3)
+  })
+
+  it('test_errors_capped_per_page — maxPerPage limits distinct errors', async () => {
+    renderProvider({ websiteId: 'site_1', trackErrors: { maxPerPage: 3 } })
+    for (let i = 0; i < 10; i++) throwUncaught(`Error ${i}`)
+    await flushQueue()
+
+    const messages = (await sentEvents('js_error')).map((e) => (e['event_data'] as Record<string, unknown>)['message'])
+    expect(messages).toEqual(['Error 0', 'Error 1', 'Error 2'])
+  })
+
+  it('test_fingerprint_stable — the same error hashes identically across page loads', async () => {
+    const first = renderProvider({ websiteId: 'site_1', trackErrors: true })
+    throwUncaught('boom')
+    await flushQueue()
+    first.unmount()
+    renderProvider({ websiteId: 'site_1', trackErrors: true })
+    throwUncaught('boom')
+    await flushQueue()
+
+    const [a, b] = (await sentEvents('js_error')).map((e) => (e['event_data'] as Record<string, unknown>)['fingerprint'])
+    expect(a).toBe(b)
+  })
+
+  it('test_errors_not_tracked_by_default — no listener without the prop', async () => {
+    renderProvider({ websiteId: 'site_1' })
+    throwUncaught('boom')
+    await flushQueue()
+    expect(await sentEvents('js_error')).toHaveLength(0)
+  })
+})
+
+// ──────────────────────────────────────────────────────────────
+// Feature: rage and dead clicks — trackFrustration
+// ──────────────────────────────────────────────────────────────
+
+describe('trackFrustration prop', () => {
+  function click(element: Element, x = 100, y = 100) {
+    act(() => {
+      element.dispatchEvent(new MouseEvent('click', { bubbles: true, cancelable: true, button: 0, clientX: x, clientY: y }))
+    })
+  }
+
+  function mount(html: string) {
+    const container = document.createElement('div')
+    container.innerHTML = html
+    document.body.appendChild(container)
+    return container
+  }
+
+  afterEach(() => {
+    document.body.innerHTML = ''
+  })
+
+  it('test_rage_click_detected — three quick clicks on one spot fire rage_click once', async () => {
+    renderProvider({ websiteId: 'site_1', trackFrustration: { deadClickTimeout: 60_000 } })
+    const container = mount('<div id="checkout"><button class="pay-btn">  Pay   now </button></div>')
+    const button = container.querySelector('button')!
+
+    click(button, 100, 100)
+    click(button, 110, 95)
+    click(button, 105, 102)
+    await flushQueue()
+
+    const events = await sentEvents('rage_click', 'dead_click')
+    expect(events).toHaveLength(1)
+    expect(events[0]['event_name']).toBe('rage_click')
+    expect(events[0]['event_data']).toEqual({ selector: '#checkout > button.pay-btn', text: 'Pay now', clicks: 3 })
+  })
+
+  it('test_rage_click_requires_proximity_and_speed — spread out or slow clicks are ignored', async () => {
+    renderProvider({ websiteId: 'site_1', trackFrustration: { deadClickTimeout: 60_000 } })
+    const target = mount('<p>Plain text</p>').querySelector('p')!
+
+    click(target, 0, 0)
+    click(target, 200, 0)
+    click(target, 400, 0)
+    click(target, 0, 0)
+    act(() => { vi.advanceTimersByTime(1500) })
+    click(target, 0, 0)
+    await flushQueue()
+
+    expect(await sentEvents('rage_click', 'dead_click')).toHaveLength(0)
+  })
+
+  it('test_dead_click_detected — a button that changes nothing fires dead_click', async () => {
+    renderProvider({ websiteId: 'site_1', trackFrustration: true })
+    const container = mount('<ul class="Nav_list__x8Ke2"><li><button data-testid="save">Save</button></li></ul>')
+
+    click(container.querySelector('button')!)
+    await act(async () => { vi.advanceTimersByTime(1000) })
+    await flushQueue()
+
+    const events = await sentEvents('rage_click', 'dead_click')
+    expect(events).toHaveLength(1)
+    expect(events[0]['event_name']).toBe('dead_click')
+    expect(events[0]['event_data']).toEqual({
+      selector: 'body > div:nth-of-type(2) > ul > li > button[data-testid="save"]',
+      text: 'Save',
+    })
+  })
+
+  it('test_click_with_dom_mutation_not_dead — a button that updates the page is fine', async () => {
+    renderProvider({ websiteId: 'site_1', trackFrustration: true })
+    const container = mount('<button>Open menu</button><nav hidden></nav>')
+    const button = container.querySelector('button')!
+    button.addEventListener('click', () => container.querySelector('nav')!.removeAttribute('hidden'))
+
+    click(button)
+    await act(async () => { vi.advanceTimersByTime(1000) })
+    await flushQueue()
+
+    expect(await sentEvents('rage_click', 'dead_click')).toHaveLength(0)
+  })
+
+  it('test_click_with_navigation_not_dead — a URL change counts as a response', async () => {
+    renderProvider({ websiteId: 'site_1', trackFrustration: true })
+    const button = mount('<button>Next step</button>').querySelector('button')!
+    button.addEventListener('click', () => {
+      window.location.href = 'http://localhost/step-2'
+    })
+
+    click(button)
+    await act(async () => { vi.advanceTimersByTime(1000) })
+    await flushQueue()
+
+    expect(await sentEvents('rage_click', 'dead_click')).toHaveLength(0)
+  })
+
+  it('test_unmount_disconnects_pending_observers — no observer outlives the provider', async () => {
+    const disconnect = vi.spyOn(MutationObserver.prototype, 'disconnect')
+    const { unmount } = renderProvider({ websiteId: 'site_1', trackFrustration: true })
+    click(mount('<button>Save</button>').querySelector('button')!)
+    expect(disconnect).not.toHaveBeenCalled()
+
+    unmount()
+    expect(disconnect).toHaveBeenCalledTimes(1)
+    disconnect.mockRestore()
+  })
+
+  it('test_click_on_plain_element_not_dead — non-interactive elements are never dead clicks', async () => {
+    renderProvider({ websiteId: 'site_1', trackFrustration: true })
+    click(mount('<span>Just text</span>').querySelector('span')!)
+    await act(async () => { vi.advanceTimersByTime(1000) })
+    await flushQueue()
+
+    expect(await sentEvents('rage_click', 'dead_click')).toHaveLength(0)
+  })
+
+  it('test_frustration_not_tracked_by_default — no events without the prop', async () => {
+    renderProvider({ websiteId: 'site_1' })
+    const button = mount('<button>Pay</button>').querySelector('button')!
+    click(button)
+    click(button)
+    click(button)
+    await act(async () => { vi.advanceTimersByTime(1000) })
+    await flushQueue()
+
+    expect(await sentEvents('rage_click', 'dead_click')).toHaveLength(0)
+  })
+})
+
+// ──────────────────────────────────────────────────────────────
+// Feature: form analytics — trackForms="extended"
+// ──────────────────────────────────────────────────────────────
+
+describe('trackForms="extended"', () => {
+  const FORM_EVENTS = ['form_start', 'form_invalid', 'form_submit', 'form_abandon']
+
+  function renderSignupForm(trackForms: boolean | 'extended' = 'extended') {
+    return renderProvider(
+      { websiteId: 'site_1', trackForms },
+      React.createElement(
+        'form',
+        { id: 'signup', name: 'signup' },
+        React.createElement('input', { name: 'email', type: 'email', required: true }),
+        React.createElement('input', { id: 'password', type: 'password' }),
+        React.createElement('input', { name: 'csrf', type: 'hidden' }),
+        React.createElement('button', { type: 'submit' }, 'Sign up'),
+      ),
+    )
+  }
+
+  function focus(element: Element) {
+    act(() => { element.dispatchEvent(new FocusEvent('focusin', { bubbles: true })) })
+  }
+
+  function setVisibility(state: 'visible' | 'hidden') {
+    Object.defineProperty(document, 'visibilityState', { value: state, configurable: true })
+    document.dispatchEvent(new Event('visibilitychange'))
+  }
+
+  afterEach(() => {
+    Object.defineProperty(document, 'visibilityState', { value: 'visible', configurable: true })
+  })
+
+  it('test_form_start_on_first_field — form_start fires once, with the first field name', async () => {
+    const { container } = renderSignupForm()
+    const [email, password] = Array.from(container.querySelectorAll('input'))
+    focus(email)
+    focus(password)
+    focus(email)
+    await flushQueue()
+
+    const events = await sentEvents(...FORM_EVENTS)
+    expect(events).toHaveLength(1)
+    expect(events[0]['event_name']).toBe('form_start')
+    expect(events[0]['event_data']).toEqual({ form_id: 'signup', form_name: 'signup', field: 'email' })
+  })
+
+  it('test_form_submit_extended_fields — time to submit and touched field names, never values', async () => {
+    const { container } = renderSignupForm()
+    const [email, password] = Array.from(container.querySelectorAll('input'))
+    email.value = 'secret@example.com'
+    focus(email)
+    act(() => { vi.advanceTimersByTime(4000) })
+    focus(password)
+    act(() => { vi.advanceTimersByTime(2500) })
+    act(() => {
+      container.querySelector('form')!.dispatchEvent(new Event('submit', { bubbles: true, cancelable: true }))
+    })
+    await flushQueue()
+
+    const submit = (await sentEvents(...FORM_EVENTS)).find((e) => e['event_name'] === 'form_submit')!
+    expect(submit['event_data']).toMatchObject({
+      form_id: 'signup',
+      time_to_submit_ms: 6500,
+      fields_touched: ['email', 'password'],
+    })
+    expect(JSON.stringify(sendBeaconMock.mock.calls)).not.toContain('secret@example.com')
+  })
+
+  it('test_form_invalid_reported — browser validation failures name the field and reason', async () => {
+    const { container } = renderSignupForm()
+    const email = container.querySelector('input[name="email"]')!
+    act(() => { email.dispatchEvent(new Event('invalid', { cancelable: true })) })
+    await flushQueue()
+
+    const invalid = (await sentEvents(...FORM_EVENTS)).find((e) => e['event_name'] === 'form_invalid')!
+    expect(invalid['event_data']).toEqual({
+      form_id: 'signup',
+      form_name: 'signup',
+      field: 'email',
+      reason: 'valueMissing',
+    })
+  })
+
+  it('test_form_abandon_on_navigation — leaving the page unsubmitted reports the last field', async () => {
+    const { container } = renderSignupForm()
+    const [email, password] = Array.from(container.querySelectorAll('input'))
+    focus(email)
+    act(() => { email.dispatchEvent(new Event('invalid', { cancelable: true })) })
+    focus(password)
+    act(() => { vi.advanceTimersByTime(3000) })
+
+    window.location.pathname = '/pricing'
+    act(() => { window.dispatchEvent(new PopStateEvent('popstate')) })
+    await flushQueue()
+
+    const abandon = (await sentEvents(...FORM_EVENTS)).find((e) => e['event_name'] === 'form_abandon')!
+    expect(abandon['url']).toBe('/')
+    expect(abandon['event_data']).toEqual({
+      form_id: 'signup',
+      form_name: 'signup',
+      fields_touched: ['email', 'password'],
+      last_field: 'password',
+      invalid_fields: ['email'],
+      duration_ms: 3000,
+    })
+  })
+
+  it('test_form_abandon_on_pagehide — sent immediately when the page unloads', async () => {
+    const { container } = renderSignupForm()
+    focus(container.querySelector('input')!)
+    await flushQueue()
+    sendBeaconMock.mockClear()
+
+    act(() => { window.dispatchEvent(new Event('pagehide')) })
+    await settle()
+
+    const names = (await sentEvents(...FORM_EVENTS)).map((e) => e['event_name'])
+    expect(names).toEqual(['form_abandon'])
+  })
+
+  it('test_form_abandon_on_hidden_tab — sent when the tab is hidden, not again on pagehide', async () => {
+    const { container } = renderSignupForm()
+    focus(container.querySelector('input')!)
+    await flushQueue()
+    sendBeaconMock.mockClear()
+
+    act(() => { setVisibility('hidden') })
+    await settle()
+    expect((await sentEvents(...FORM_EVENTS)).map((e) => e['event_name'])).toEqual(['form_abandon'])
+
+    act(() => { window.dispatchEvent(new Event('pagehide')) })
+    await flushQueue()
+    expect((await sentEvents(...FORM_EVENTS)).map((e) => e['event_name'])).toEqual(['form_abandon'])
+  })
+
+  it('test_form_submit_after_hidden_tab — hide, return and submit cancels the abandon with resumed', async () => {
+    const { container } = renderSignupForm()
+    const [email, password] = Array.from(container.querySelectorAll('input'))
+    focus(email)
+    act(() => { setVisibility('hidden') })
+    act(() => { vi.advanceTimersByTime(2000) })
+    act(() => { setVisibility('visible') })
+    focus(password)
+    act(() => {
+      container.querySelector('form')!.dispatchEvent(new Event('submit', { bubbles: true, cancelable: true }))
+    })
+    window.location.pathname = '/pricing'
+    act(() => { window.dispatchEvent(new PopStateEvent('popstate')) })
+    await flushQueue()
+
+    const events = await sentEvents(...FORM_EVENTS)
+    expect(events.map((e) => e['event_name'])).toEqual(['form_start', 'form_abandon', 'form_submit'])
+    expect(events[2]['event_data']).toMatchObject({
+      time_to_submit_ms: 2000,
+      fields_touched: ['email', 'password'],
+      resumed: true,
+    })
+  })
+
+  it('test_submitted_form_not_abandoned — no form_abandon after a submit', async () => {
+    const { container } = renderSignupForm()
+    focus(container.querySelector('input')!)
+    act(() => {
+      container.querySelector('form')!.dispatchEvent(new Event('submit', { bubbles: true, cancelable: true }))
+    })
+    act(() => { window.dispatchEvent(new Event('pagehide')) })
+    await flushQueue()
+
+    const events = await sentEvents(...FORM_EVENTS)
+    expect(events.map((e) => e['event_name'])).toEqual(['form_start', 'form_submit'])
+    expect(events[1]['event_data']).not.toHaveProperty('resumed')
+  })
+
+  it('test_plain_track_forms_unchanged — trackForms={true} ignores field focus', async () => {
+    const { container } = renderSignupForm(true)
+    focus(container.querySelector('input')!)
+    act(() => { window.dispatchEvent(new Event('pagehide')) })
+    await flushQueue()
+
+    expect(await sentEvents(...FORM_EVENTS)).toHaveLength(0)
+  })
+})
+
+// ──────────────────────────────────────────────────────────────
+// Feature: site search — trackSearch
+// ──────────────────────────────────────────────────────────────
+
+describe('trackSearch prop', () => {
+  function setSearch(pathname: string, search: string) {
+    window.location.pathname = pathname
+    window.location.search = search
+  }
+
+  it('test_search_on_initial_pageview — normalized term from ?q= is sent after the pageview', async () => {
+    setSearch('/search', '?q=%20%20Running%20%20SHOES%20')
+    renderProvider({ websiteId: 'site_1', trackSearch: true })
+    await flushQueue()
+
+    const events = await sentEvents()
+    expect(events.map((e) => e['type'] === 'pageview' ? 'pageview' : e['event_name'])).toEqual(['pageview', 'site_search'])
+    expect(events[1]['url']).toBe('/search')
+    expect(events[1]['event_data']).toEqual({ term: 'running shoes' })
+  })
+
+  it('test_search_on_spa_navigation — each detected route change with a term emits site_search', async () => {
+    renderProvider({ websiteId: 'site_1', trackSearch: true })
+    await flushQueue()
+    expect(await sentEvents('site_search')).toHaveLength(0)
+
+    setSearch('/search', '?s=tents')
+    act(() => { window.dispatchEvent(new PopStateEvent('popstate')) })
+    await flushQueue()
+
+    const events = await sentEvents('site_search')
+    expect(events).toHaveLength(1)
+    expect(events[0]['event_data']).toEqual({ term: 'tents' })
+  })
+
+  it('test_search_custom_params_and_category — options select params and category', async () => {
+    setSearch('/catalog', '?keyword=Lamp&q=ignored&dept=Lighting')
+    renderProvider({ websiteId: 'site_1', trackSearch: { params: ['keyword'], categoryParam: 'dept' } })
+    await flushQueue()
+
+    const events = await sentEvents('site_search')
+    expect(events[0]['event_data']).toEqual({ term: 'lamp', category: 'Lighting' })
+  })
+
+  it('test_search_result_count — resultCount callback adds result_count, including zero', async () => {
+    setSearch('/search', '?query=unobtainium')
+    const resultCount = vi.fn().mockReturnValue(0)
+    renderProvider({ websiteId: 'site_1', trackSearch: { resultCount } })
+    await flushQueue()
+
+    expect(resultCount).toHaveBeenCalledWith('unobtainium')
+    const events = await sentEvents('site_search')
+    expect(events[0]['event_data']).toEqual({ term: 'unobtainium', result_count: 0 })
+  })
+
+  it('test_search_result_count_awaited — a promise delays site_search until the results have loaded', async () => {
+    setSearch('/search', '?q=tents')
+    let resolveCount: (count: number) => void = () => {}
+    renderProvider({
+      websiteId: 'site_1',
+      trackSearch: { resultCount: () => new Promise<number>((resolve) => { resolveCount = resolve }) },
+    })
+    await flushQueue()
+    expect(await sentEvents('site_search')).toHaveLength(0)
+
+    await act(async () => { resolveCount(12) })
+    await flushQueue()
+    const events = await sentEvents('site_search')
+    expect(events).toHaveLength(1)
+    expect(events[0]['event_data']).toEqual({ term: 'tents', result_count: 12 })
+  })
+
+  it('test_search_result_count_gives_up — a count that never arrives sends the search without one', async () => {
+    setSearch('/search', '?q=tents')
+    renderProvider({ websiteId: 'site_1', trackSearch: { resultCount: () => new Promise<number>(() => {}) } })
+    await flushQueue()
+    await act(async () => { vi.advanceTimersByTime(10_000) })
+    await flushQueue()
+
+    const events = await sentEvents('site_search')
+    expect(events).toHaveLength(1)
+    expect(events[0]['event_data']).toEqual({ term: 'tents' })
+  })
+
+  it('test_search_empty_term_ignored — blank parameters do not emit site_search', async () => {
+    setSearch('/search', '?q=%20%20')
+    renderProvider({ websiteId: 'site_1', trackSearch: true })
+    await flushQueue()
+    expect(await sentEvents('site_search')).toHaveLength(0)
+  })
+
+  it('test_search_disabled_by_default — query params are ignored without the prop', async () => {
+    setSearch('/search', '?q=tents')
+    renderProvider({ websiteId: 'site_1' })
+    await flushQueue()
+    expect(await sentEvents('site_search')).toHaveLength(0)
+  })
+})
+
+// ──────────────────────────────────────────────────────────────
+// Feature: outgoing event pipeline — beforeSend and redact
+// ──────────────────────────────────────────────────────────────
+
+describe('beforeSend and redact props', () => {
+  it('test_before_send_modifies_and_drops — return value is sent, null drops', async () => {
+    const { getByText } = renderProvider(
+      {
+        websiteId: 'site_1',
+        beforeSend: (event) =>
+          event.event_name === 'internal' ? null : { ...event, event_data: { ...event.event_data, build: 'abc' } },
+      },
+      React.createElement(() => {
+        const { track } = useSparklytics()
+        return React.createElement(
+          React.Fragment,
+          {},
+          React.createElement('button', { onClick: () => track('internal') }, 'internal'),
+          React.createElement('button', { onClick: () => track('signup', { plan: 'pro' }) }, 'signup'),
+        )
+      }),
+    )
+    act(() => {
+      getByText('internal').click()
+      getByText('signup').click()
+    })
+    await flushQueue()
+
+    const events = await sentEvents()
+    expect(events.map((e) => e['event_name'] ?? e['type'])).toEqual(['pageview', 'signup'])
+    expect(events[1]['event_data']).toEqual({ plan: 'pro', build: 'abc' })
+  })
+
+  it('test_before_send_sees_enriched_event — visitor_id and session_id are attached first', async () => {
+    standaloneIdentify('user_hash_1')
+    const beforeSend = vi.fn((event: BatchEvent) => event)
+    renderProvider({ websiteId: 'site_1', trackSessions: true, beforeSend })
+    await flushQueue()
+
+    const pageview = beforeSend.mock.calls.map(([e]) => e).find((e) => e.type === 'pageview')!
+    expect(pageview.visitor_id).toBe('user_hash_1')
+    expect(pageview.session_id).toEqual(expect.any(String))
+    standaloneReset()
+  })
+
+  it('test_before_send_throwing_drops_event — a broken hook never leaks the event', async () => {
+    renderProvider({
+      websiteId: 'site_1',
+      beforeSend: () => { throw new Error('boom') },
+    })
+    await flushQueue()
+    expect(sendBeaconMock).not.toHaveBeenCalled()
+  })
+
+  it('test_redact_pageview_url_and_referrer — path tokens are removed from url and referrer', async () => {
+    window.location.pathname = '/reset-password/9f86d081884c7d65'
+    Object.defineProperty(document, 'referrer', { value: 'https://mail.example.com/inbox/msg-42', configurable: true })
+    renderProvider({
+      websiteId: 'site_1',
+      redact: { pathSegments: [/^[0-9a-f]{16,}$/], referrers: ['https://mail.example.com/*'] },
+    })
+    await flushQueue()
+
+    const [pageview] = await sentEvents()
+    expect(pageview['url']).toBe('/reset-password/[redacted]')
+    expect(pageview['referrer']).toBe('https://mail.example.com')
+  })
+
+  it('test_redact_automatic_events — link hrefs and event_data keys are redacted too', async () => {
+    renderProvider({
+      websiteId: 'site_1',
+      trackLinks: true,
+      redact: { pathSegments: ['eyJ*'], eventDataKeys: ['text'] },
+    })
+    await flushQueue()
+    sendBeaconMock.mockClear()
+
+    const anchor = document.createElement('a')
+    anchor.setAttribute('href', '/invite/eyJhbGciOi.payload.sig')
+    anchor.textContent = 'Accept invite for jane@example.com'
+    document.body.appendChild(anchor)
+    act(() => {
+      anchor.dispatchEvent(new MouseEvent('click', { bubbles: true, cancelable: true, button: 0 }))
+    })
+    anchor.remove()
+    await flushQueue()
+
+    const [click] = await sentEvents()
+    expect(click['event_data']).toEqual({ href: '/invite/[redacted]', text: '[redacted]' })
+  })
+
+  it('test_redact_session_start_entry_page — the session announcement is redacted as well', async () => {
+    window.location.pathname = '/invite/eyJabc'
+    renderProvider({ websiteId: 'site_1', trackSessions: true, redact: { pathSegments: ['eyJ*'] } })
+    await flushQueue()
+
+    const start = (await sentEvents()).find((e) => e['event_name'] === 'session_start')!
+    expect(start['url']).toBe('/invite/[redacted]')
+    expect((start['event_data'] as Record<string, unknown>)['entry_page']).toBe('/invite/[redacted]')
+  })
+
+  it('test_use_pageview_before_send_and_redact — the standalone hook applies the same pipeline', async () => {
+    window.location.pathname = '/invite/eyJabc'
+    function App() {
+      usePageview({
+        websiteId: 'site_1',
+        redact: { pathSegments: ['eyJ*'] },
+        beforeSend: (event) => ({ ...event, language: 'xx' }),
+      })
+      return null
+    }
+    render(React.createElement(App))
+    await settle()
+
+    const [pageview] = await sentEvents()
+    expect(pageview['url']).toBe('/invite/[redacted]')
+    expect(pageview['language']).toBe('xx')
+  })
+})
+
+// ──────────────────────────────────────────────────────────────
+// Feature: route templates — route and intercepted
+// ──────────────────────────────────────────────────────────────
+
+describe('route templates', () => {
+  function mockAppRouter(pathname: string, params: Record<string, string | string[]>, segments: string[]) {
+    window.location.pathname = pathname
+    vi.mocked(usePathname).mockReturnValue(pathname)
+    vi.mocked(useParams).mockReturnValue(params)
+    vi.mocked(useSelectedLayoutSegments).mockReturnValue(segments)
+  }
+
+  afterEach(() => {
+    vi.mocked(usePathname).mockReturnValue('/')
+    vi.mocked(useParams).mockReturnValue({})
+    vi.mocked(useSelectedLayoutSegments).mockReturnValue(null)
+    delete (nextRouter as { pathname?: string }).pathname
+    delete (window as { __NEXT_DATA__?: unknown }).__NEXT_DATA__
+  })
+
+  it('test_app_router_dynamic_route — params are replaced by their segment names', async () => {
+    mockAppRouter('/users/1/posts/1', { user: '1', post: '1' }, ['users', '1', 'posts', '1'])
+    renderProvider({ websiteId: 'site_1' })
+    await flushQueue()
+
+    const [pageview] = await sentEvents('pageview')
+    expect(pageview['url']).toBe('/users/1/posts/1')
+    expect(pageview['route']).toBe('/users/[user]/posts/[post]')
+    expect(pageview['intercepted']).toBeUndefined()
+  })
+
+  it('test_pages_router_on_older_next — a throwing useSelectedLayoutSegments() is treated as no App Router', async () => {
+    // Next.js before 14.2 destructures a null layout router context outside the App Router
+    vi.mocked(useSelectedLayoutSegments).mockImplementation(() => {
+      throw new TypeError("Cannot destructure property 'tree' of 'useContext(...)' as it is null.")
+    })
+    window.location.pathname = '/blog/hello'
+    ;(window as { __NEXT_DATA__?: unknown }).__NEXT_DATA__ = { page: '/blog/[slug]' }
+    renderProvider({ websiteId: 'site_1' })
+    await flushQueue()
+    vi.mocked(useSelectedLayoutSegments).mockReset()
+
+    const [pageview] = await sentEvents('pageview')
+    expect(pageview['route']).toBe('/blog/[slug]')
+  })
+
+  it('test_app_router_catch_all_and_groups — catch-all params and route groups', async () => {
+    mockAppRouter('/docs/getting%20started/install', { slug: ['getting started', 'install'] }, ['(marketing)', 'docs', 'getting started/install'])
+    renderProvider({ websiteId: 'site_1' })
+    await flushQueue()
+
+    const [pageview] = await sentEvents('pageview')
+    expect(pageview['route']).toBe('/docs/[...slug]')
+    expect(pageview['intercepted']).toBeUndefined()
+  })
+
+  it('test_app_router_intercepted_route — a modal over another page is flagged', async () => {
+    mockAppRouter('/feed', {}, ['feed'])
+    const { rerender } = renderProvider({ websiteId: 'site_1' })
+    await flushQueue()
+    sendBeaconMock.mockClear()
+
+    // Soft navigation to /photos/7 rendered by app/@modal/(.)photos/[id]:
+    // children keeps rendering /feed underneath.
+    await act(async () => {
+      mockAppRouter('/photos/7', { id: '7' }, ['feed'])
+      rerender(
+        React.createElement(
+          SparklyticsProvider,
+          { websiteId: 'site_1' },
+          React.createElement('div', {}, 'child'),
+        ),
+      )
+    })
+    act(() => history.pushState({}, '', '/photos/7'))
+    await flushQueue()
+
+    const pageviews = await sentEvents('pageview')
+    expect(pageviews.find((e) => e['url'] === '/photos/7')).toMatchObject({
+      route: '/photos/[id]',
+      intercepted: true,
+    })
+  })
+
+  it('test_pages_router_route — initial page, pushState state and routeChangeComplete', async () => {
+    window.location.pathname = '/blog/hello'
+    ;(window as { __NEXT_DATA__?: unknown }).__NEXT_DATA__ = { page: '/blog/[slug]' }
+    renderProvider({ websiteId: 'site_1' })
+    await settle()
+    await flushQueue()
+
+    await act(async () => {
+      window.location.pathname = '/shop/42'
+      history.pushState({ __N: true, url: '/shop/[id]?id=42', as: '/shop/42' }, '', '/shop/42')
+      await Promise.resolve()
+    })
+    await flushQueue()
+
+    const routerOnMock = nextRouter.events.on as ReturnType<typeof vi.fn>
+    const routeChangeHandler = routerOnMock.mock.calls.find(
+      ([event]: [string]) => event === 'routeChangeComplete',
+    )![1] as (url: string) => void
+    ;(nextRouter as { pathname?: string }).pathname = '/tags/[tag]'
+    await act(async () => {
+      vi.advanceTimersByTime(200)
+      routeChangeHandler('/tags/react')
+    })
+    await flushQueue()
+
+    const pageviews = await sentEvents('pageview')
+    expect(pageviews.map((e) => [e['url'], e['route']])).toEqual([
+      ['/blog/hello', '/blog/[slug]'],
+      ['/shop/42', '/shop/[id]'],
+      ['/tags/react', '/tags/[tag]'],
+    ])
+  })
+})
+
+// ──────────────────────────────────────────────────────────────
+// Feature: query string and hash capture — captureUrl
+// ──────────────────────────────────────────────────────────────
+
+describe('captureUrl prop', () => {
+  function navigate(path: string, search = '', hash = '') {
+    Object.assign(window.location, { pathname: path, search, hash })
+    history.pushState({}, '', path + search + hash)
+  }
+
+  beforeEach(() => {
+    Object.assign(window.location, { pathname: '/shop', search: '?category=shoes&token=abc&page=2', hash: '#/reviews' })
+  })
+
+  afterEach(() => {
+    vi.mocked(useSearchParams).mockReturnValue(new URLSearchParams() as ReturnType<typeof useSearchParams>)
+  })
+
+  it('test_default_path_only — query string and hash are dropped', async () => {
+    renderProvider({ websiteId: 'site_1' })
+    await flushQueue()
+
+    const [pageview] = await sentEvents()
+    expect(pageview['url']).toBe('/shop')
+  })
+
+  it('test_allowlist_and_hash — kept params in original order, hash, also on events', async () => {
+    const { getByText } = renderProvider(
+      { websiteId: 'site_1', captureUrl: { queryParams: ['page', 'category'], hash: true } },
+      React.createElement(() => {
+        const { track } = useSparklytics()
+        return React.createElement('button', { onClick: () => track('filter') }, 'filter')
+      }),
+    )
+    act(() => getByText('filter').click())
+    await flushQueue()
+
+    const events = await sentEvents()
+    expect(events.map((e) => e['url'])).toEqual([
+      '/shop?category=shoes&page=2#/reviews',
+      '/shop?category=shoes&page=2#/reviews',
+    ])
+  })
+
+  it('test_scroll_depth_uses_captured_url — same url as the pageview', async () => {
+    renderProvider({ websiteId: 'site_1', trackScrollDepth: [25], captureUrl: { queryParams: ['page'] } })
+    Object.defineProperty(document.documentElement, 'scrollHeight', { value: 2000, configurable: true })
+    Object.defineProperty(window, 'innerHeight', { value: 500, configurable: true })
+    Object.defineProperty(window, 'scrollY', { value: 750, configurable: true })
+    act(() => { window.dispatchEvent(new Event('scroll')) })
+    await flushQueue()
+
+    const events = await sentEvents()
+    expect(events.map((e) => e['event_name'] ?? e['type'])).toEqual(['pageview', 'scroll_depth'])
+    expect(events.map((e) => e['url'])).toEqual(['/shop?page=2', '/shop?page=2'])
+  })
+
+  it('test_param_only_navigation_not_counted — unless trackParamChanges is set', async () => {
+    renderProvider({ websiteId: 'site_1', captureUrl: { queryParams: ['page'] } })
+    await flushQueue()
+    sendBeaconMock.mockClear()
+
+    act(() => navigate('/shop', '?page=3'))
+    await flushQueue()
+    expect(sendBeaconMock).not.toHaveBeenCalled()
+
+    act(() => navigate('/cart', '?page=1&token=abc'))
+    await flushQueue()
+    expect((await sentEvents()).map((e) => e['url'])).toEqual(['/cart?page=1'])
+  })
+
+  it('test_track_param_changes — pushState, popstate hashes and router.replace()', async () => {
+    const { rerender } = renderProvider({
+      websiteId: 'site_1',
+      captureUrl: { queryParams: ['page'], hash: true, trackParamChanges: true },
+    })
+    await flushQueue()
+    sendBeaconMock.mockClear()
+
+    act(() => navigate('/shop', '?page=3'))
+    vi.advanceTimersByTime(200)
+    await act(async () => {
+      Object.assign(window.location, { hash: '#/faq' })
+      window.dispatchEvent(new PopStateEvent('popstate'))
+    })
+    await flushQueue()
+
+    // router.replace(): no pushState, only useSearchParams() changes
+    await act(async () => {
+      Object.assign(window.location, { search: '?page=4' })
+      vi.mocked(useSearchParams).mockReturnValue(new URLSearchParams('page=4') as ReturnType<typeof useSearchParams>)
+      rerender(
+        React.createElement(
+          SparklyticsProvider,
+          { websiteId: 'site_1', captureUrl: { queryParams: ['page'], hash: true, trackParamChanges: true } },
+          React.createElement('div', {}, 'child'),
+        ),
+      )
+    })
+    // A parameter that is not kept does not change the recorded URL
+    await act(async () => {
+      Object.assign(window.location, { search: '?page=4&sort=asc' })
+      vi.mocked(useSearchParams).mockReturnValue(new URLSearchParams('page=4&sort=asc') as ReturnType<typeof useSearchParams>)
+      rerender(
+        React.createElement(
+          SparklyticsProvider,
+          { websiteId: 'site_1', captureUrl: { queryParams: ['page'], hash: true, trackParamChanges: true } },
+          React.createElement('div', {}, 'child'),
+        ),
+      )
+    })
+    await flushQueue()
+
+    expect((await sentEvents()).map((e) => e['url'])).toEqual([
+      '/shop?page=3',
+      '/shop?page=3#/faq',
+      '/shop?page=4#/faq',
+    ])
+  })
+
+  it('test_pages_router_route_change — the as-path is filtered too', async () => {
+    renderProvider({ websiteId: 'site_1', captureUrl: { queryParams: ['page'] } })
+    await settle()
+    await flushQueue()
+    sendBeaconMock.mockClear()
+
+    const routerOnMock = nextRouter.events.on as ReturnType<typeof vi.fn>
+    const routeChangeHandler = routerOnMock.mock.calls.find(
+      ([event]: [string]) => event === 'routeChangeComplete',
+    )![1] as (url: string) => void
+    await act(async () => {
+      routeChangeHandler('/blog?page=2&utm_source=x#comments')
+    })
+    await flushQueue()
+
+    expect((await sentEvents()).map((e) => e['url'])).toEqual(['/blog?page=2'])
+  })
+})
+
+// ──────────────────────────────────────────────────────────────
+// Feature: in-app referrer for SPA navigations
+// ──────────────────────────────────────────────────────────────
+
+describe('in-app referrer', () => {
+  beforeEach(() => {
+    Object.defineProperty(document, 'referrer', { value: 'https://google.com/', configurable: true })
+  })
+
+  it('test_referrer_chain — landing keeps the external referrer, later pageviews the previous page', async () => {
+    const { rerender } = renderProvider({ websiteId: 'site_1' })
+    await settle()
+    await flushQueue()
+
+    // pushState
+    act(() => {
+      window.location.pathname = '/pricing'
+      history.pushState({}, '', '/pricing')
+    })
+    await flushQueue()
+
+    // popstate (back)
+    act(() => {
+      window.location.pathname = '/'
+      window.dispatchEvent(new PopStateEvent('popstate'))
+    })
+    await flushQueue()
+
+    // Pages Router routeChangeComplete
+    const routerOnMock = nextRouter.events.on as ReturnType<typeof vi.fn>
+    const routeChangeHandler = routerOnMock.mock.calls.find(
+      ([event]: [string]) => event === 'routeChangeComplete',
+    )![1] as (url: string) => void
+    act(() => routeChangeHandler('/blog'))
+    await flushQueue()
+
+    // AppRouterTracker (router.replace(), no pushState)
+    await act(async () => {
+      vi.mocked(usePathname).mockReturnValue('/docs')
+      rerender(React.createElement(SparklyticsProvider, { websiteId: 'site_1' }, React.createElement('div', {}, 'child')))
+    })
+    await flushQueue()
+    vi.mocked(usePathname).mockReturnValue('/')
+
+    expect((await sentEvents('pageview')).map((e) => [e['url'], e['referrer']])).toEqual([
+      ['/', 'https://google.com/'],
+      ['/pricing', 'http://localhost/'],
+      ['/', 'http://localhost/pricing'],
+      ['/blog', 'http://localhost/'],
+      ['/docs', 'http://localhost/blog'],
+    ])
+  })
+
+  it('test_manual_pageview_referrer — pageview() also uses the previous in-app URL', async () => {
+    const { getByText } = renderProvider(
+      { websiteId: 'site_1' },
+      React.createElement(() => {
+        const { pageview } = useSparklytics()
+        return React.createElement('button', { onClick: () => pageview('/wizard/step-2') }, 'next')
+      }),
+    )
+    await flushQueue()
+    vi.advanceTimersByTime(200)
+    act(() => getByText('next').click())
+    await flushQueue()
+
+    const pageviews = await sentEvents('pageview')
+    expect(pageviews[1]).toMatchObject({ url: '/wizard/step-2', referrer: 'http://localhost/' })
+  })
+
+  it('test_bfcache_restore_referrer — a restored page does not report the landing referrer again', async () => {
+    renderProvider({ websiteId: 'site_1' })
+    await flushQueue()
+    act(() => {
+      window.location.pathname = '/pricing'
+      history.pushState({}, '', '/pricing')
+    })
+    await flushQueue()
+
+    act(() => { window.dispatchEvent(Object.assign(new Event('pageshow'), { persisted: true })) })
+    await flushQueue()
+
+    const restored = (await sentEvents('pageview')).find((e) => e['bfcache'])!
+    expect(restored).toMatchObject({ url: '/pricing', referrer: 'http://localhost/pricing' })
+    window.location.pathname = '/'
+  })
+})
+
+// ──────────────────────────────────────────────────────────────
+// Feature: page title and page properties
+// ──────────────────────────────────────────────────────────────
+
+describe('trackTitle and <PageProperties>', () => {
+  function Page({ data }: { data?: Record<string, unknown> }) {
+    const { track } = useSparklytics()
+    return React.createElement(
+      React.Fragment,
+      {},
+      data ? React.createElement(PageProperties, { data }) : null,
+      React.createElement('button', { onClick: () => track('share') }, 'share'),
+    )
+  }
+
+  afterEach(() => {
+    document.title = ''
+  })
+
+  it('test_track_title — initial title, and the new title after a SPA navigation', async () => {
+    document.title = 'Home'
+    renderProvider({ websiteId: 'site_1', trackTitle: true })
+    await flushQueue()
+
+    act(() => {
+      window.location.pathname = '/about'
+      history.pushState({}, '', '/about')
+      // Metadata is updated after the router has pushed the new URL
+      document.title = 'About us'
+    })
+    await flushQueue()
+
+    const pageviews = await sentEvents('pageview')
+    expect(pageviews.map((e) => [e['url'], e['title']])).toEqual([
+      ['/', 'Home'],
+      ['/about', 'About us'],
+    ])
+  })
+
+  it('test_title_off_by_default — no title field', async () => {
+    document.title = 'Home'
+    renderProvider({ websiteId: 'site_1' })
+    await flushQueue()
+    expect((await sentEvents())[0]).not.toHaveProperty('title')
+  })
+
+  it('test_page_properties — on the pageview and on events, replaced on navigation', async () => {
+    const { rerender, getByText } = renderProvider(
+      { websiteId: 'site_1' },
+      React.createElement(Page, { data: { author: 'ada', category: 'news' } }),
+    )
+    act(() => getByText('share').click())
+    await flushQueue()
+
+    // Navigate: the router pushes the URL, then the new page renders
+    act(() => {
+      window.location.pathname = '/docs'
+      history.pushState({}, '', '/docs')
+      rerender(React.createElement(SparklyticsProvider, { websiteId: 'site_1' }, React.createElement(Page, { data: { content_type: 'guide' } })))
+    })
+    await flushQueue()
+
+    // A page without properties
+    act(() => {
+      window.location.pathname = '/contact'
+      history.pushState({}, '', '/contact')
+      rerender(React.createElement(SparklyticsProvider, { websiteId: 'site_1' }, React.createElement(Page, {})))
+    })
+    act(() => {
+      vi.advanceTimersByTime(1)
+      getByText('share').click()
+    })
+    await flushQueue()
+
+    expect((await sentEvents()).map((e) => [e['event_name'] ?? e['url'], e['page_data']])).toEqual([
+      ['/', { author: 'ada', category: 'news' }],
+      ['share', { author: 'ada', category: 'news' }],
+      ['/docs', { content_type: 'guide' }],
+      ['/contact', undefined],
+      ['share', undefined],
+    ])
+  })
+
+  it('test_manual_pageview_data — merged over <PageProperties>', async () => {
+    const { getByText } = renderProvider(
+      { websiteId: 'site_1' },
+      React.createElement(() => {
+        const { pageview } = useSparklytics()
+        return React.createElement(
+          React.Fragment,
+          {},
+          React.createElement(PageProperties, { data: { section: 'checkout', step: 1 } }),
+          React.createElement('button', { onClick: () => pageview('/checkout/payment', { step: 2 }) }, 'next'),
+        )
+      }),
+    )
+    await flushQueue()
+    vi.advanceTimersByTime(200)
+    act(() => getByText('next').click())
+    await flushQueue()
+
+    const pageviews = await sentEvents('pageview')
+    expect(pageviews[1]['page_data']).toEqual({ section: 'checkout', step: 2 })
+  })
+
+  it('test_exit_events_keep_page_data — page_leave carries the page it reports on', async () => {
+    const { rerender } = renderProvider(
+      { websiteId: 'site_1', trackEngagement: true },
+      React.createElement(Page, { data: { author: 'ada' } }),
+    )
+    await flushQueue()
+
+    // The next page renders (and mounts its properties) before the URL change is seen
+    act(() => {
+      rerender(React.createElement(SparklyticsProvider, { websiteId: 'site_1', trackEngagement: true }, React.createElement(Page, { data: { content_type: 'guide' } })))
+      window.location.pathname = '/docs'
+      history.pushState({}, '', '/docs')
+    })
+    await flushQueue()
+
+    const events = await sentEvents()
+    expect(events.find((e) => e['event_name'] === 'page_leave')!['page_data']).toEqual({ author: 'ada' })
+    expect(events.find((e) => e['url'] === '/docs' && e['type'] === 'pageview')!['page_data']).toEqual({ content_type: 'guide' })
+  })
+
+  it('test_page_properties_title — overrides document.title on the pageview', async () => {
+    document.title = 'Previous page'
+    renderProvider(
+      { websiteId: 'site_1', trackTitle: true },
+      React.createElement(PageProperties, { title: 'Pricing' }),
+    )
+    await flushQueue()
+
+    const [pageview] = await sentEvents()
+    expect(pageview['title']).toBe('Pricing')
+    expect(pageview).not.toHaveProperty('page_data')
+  })
+})
+
+// ──────────────────────────────────────────────────────────────
+// Feature: ad click IDs and campaign parameters — campaignParams
+// ──────────────────────────────────────────────────────────────
+
+describe('campaign parameters', () => {
+  function land(search: string) {
+    Object.assign(window.location, { pathname: '/landing', search })
+  }
+
+  it('test_click_ids_captured_and_persisted — default list, kept across SPA navigations', async () => {
+    land('?gclid=Cj0KCQ&utm_source=google&ref=partner&color=red')
+    renderProvider({ websiteId: 'site_1' })
+    await flushQueue()
+
+    act(() => {
+      Object.assign(window.location, { pathname: '/pricing', search: '' })
+      history.pushState({}, '', '/pricing')
+    })
+    await flushQueue()
+
+    const pageviews = await sentEvents('pageview')
+    for (const pageview of pageviews) {
+      expect(pageview['utm_source']).toBe('google')
+      expect(pageview['campaign_params']).toEqual({ gclid: 'Cj0KCQ' })
+    }
+    expect(pageviews).toHaveLength(2)
+  })
+
+  it('test_click_id_alone_starts_campaign — replaces stored UTMs like a new UTM set', async () => {
+    sessionStorage.setItem('_spl_utm', JSON.stringify({ utm_source: 'newsletter' }))
+    land('?fbclid=IwAR0')
+    renderProvider({ websiteId: 'site_1' })
+    await flushQueue()
+
+    const [pageview] = await sentEvents('pageview')
+    expect(pageview['utm_source']).toBeUndefined()
+    expect(pageview['campaign_params']).toEqual({ fbclid: 'IwAR0' })
+  })
+
+  it('test_campaign_params_configurable — custom list replaces the defaults', async () => {
+    land('?gclid=Cj0KCQ&aff=42')
+    renderProvider({ websiteId: 'site_1', campaignParams: ['aff'] })
+    await flushQueue()
+    expect((await sentEvents('pageview'))[0]['campaign_params']).toEqual({ aff: '42' })
+    expect(DEFAULT_CAMPAIGN_PARAMS).toContain('gclid')
+    expect(DEFAULT_CAMPAIGN_PARAMS).not.toContain('ref')
+  })
+
+  it('test_generic_params_keep_campaign — an internal ?ref= link neither replaces the set nor starts a session', async () => {
+    land('?utm_source=google&ref=partner')
+    renderProvider({ websiteId: 'site_1', trackSessions: true, campaignParams: [...DEFAULT_CAMPAIGN_PARAMS, 'ref'] })
+    await flushQueue()
+
+    act(() => {
+      Object.assign(window.location, { pathname: '/pricing', search: '?ref=nav' })
+      history.pushState({}, '', '/pricing?ref=nav')
+    })
+    await flushQueue()
+
+    const events = await sentEvents()
+    const pageviews = events.filter((e) => e['type'] === 'pageview')
+    expect(pageviews).toHaveLength(2)
+    for (const pageview of pageviews) {
+      expect(pageview['utm_source']).toBe('google')
+      expect(pageview['campaign_params']).toEqual({ ref: 'partner' })
+    }
+    expect(events.filter((e) => e['event_name'] === 'session_start')).toHaveLength(1)
+  })
+
+  it('test_generic_params_alone_captured — kept when no campaign is stored, never replacing it', async () => {
+    land('?ref=producthunt')
+    renderProvider({ websiteId: 'site_1', trackSessions: true, campaignParams: [...DEFAULT_CAMPAIGN_PARAMS, 'ref'] })
+    await flushQueue()
+    expect(JSON.parse(sessionStorage.getItem('_spl_utm')!)).toEqual({ ref: 'producthunt' })
+
+    act(() => {
+      Object.assign(window.location, { pathname: '/pricing', search: '?ref=nav' })
+      history.pushState({}, '', '/pricing?ref=nav')
+    })
+    await flushQueue()
+
+    const events = await sentEvents()
+    const pageviews = events.filter((e) => e['type'] === 'pageview')
+    expect(pageviews.map((e) => e['campaign_params'])).toEqual([{ ref: 'producthunt' }, { ref: 'producthunt' }])
+    expect(events.filter((e) => e['event_name'] === 'session_start')).toHaveLength(1)
+  })
+
+  it('test_click_ids_need_marketing_consent — stripped without it', async () => {
+    localStorage.clear()
+    standaloneSetConsent({ analytics: true, marketing: false })
+    land('?gclid=Cj0KCQ')
+    renderProvider({ websiteId: 'site_1', requireConsent: true })
+    await flushQueue()
+
+    expect((await sentEvents('pageview'))[0]).not.toHaveProperty('campaign_params')
+    localStorage.clear()
+  })
+
+  it('test_session_start_includes_click_ids — and a new click ID starts a new session', async () => {
+    land('?gclid=first')
+    renderProvider({ websiteId: 'site_1', trackSessions: true })
+    await flushQueue()
+
+    act(() => {
+      Object.assign(window.location, { pathname: '/again', search: '?gclid=second' })
+      history.pushState({}, '', '/again?gclid=second')
+    })
+    await flushQueue()
+
+    const starts = await sentEvents('session_start')
+    expect(starts.map((e) => e['event_data'])).toEqual([
+      { entry_page: '/landing', gclid: 'first' },
+      { entry_page: '/again', gclid: 'second' },
+    ])
+  })
+})
+
+// ──────────────────────────────────────────────────────────────
+// Feature: first- and last-touch attribution — attribution
+// ──────────────────────────────────────────────────────────────
+
+describe('attribution', () => {
+  function TrackButton({ name }: { name: string }) {
+    const { track } = useSparklytics()
+    return React.createElement('button', { onClick: () => track(name) }, name)
+  }
+
+  /** Land on `pathname` + `search` from `referrer` and render a provider with a track button. */
+  async function visit(
+    props: Partial<React.ComponentProps<typeof SparklyticsProvider>>,
+    { pathname = '/landing', search = '', referrer = '' } = {},
+  ) {
+    cleanup()
+    Object.assign(window.location, { pathname, search })
+    Object.defineProperty(document, 'referrer', { value: referrer, configurable: true })
+    const view = renderProvider(
+      { websiteId: 'site_1', attribution: true, ...props },
+      React.createElement(TrackButton, { name: 'signup' }),
+    )
+    await flushQueue()
+    return view
+  }
+
+  beforeEach(() => {
+    localStorage.clear()
+    Object.assign(window.location, { hostname: 'localhost' })
+  })
+
+  afterEach(() => {
+    localStorage.clear()
+  })
+
+  it('test_first_and_last_touch — kept across visits and attached to events', async () => {
+    vi.setSystemTime(new Date('2026-03-01T10:00:00Z'))
+    await visit({}, { search: '?utm_source=google&utm_campaign=spring&gclid=Cj0' })
+
+    vi.setSystemTime(new Date('2026-03-03T10:00:00Z'))
+    await visit({}, { pathname: '/blog/launch', search: '?utm_source=newsletter' })
+
+    vi.setSystemTime(new Date('2026-03-04T10:00:00Z'))
+    const { getByText } = await visit({}, { pathname: '/pricing' })
+    act(() => getByText('signup').click())
+    await flushQueue()
+
+    const signup = (await sentEvents()).find((e) => e['event_name'] === 'signup')!
+    expect(signup).toMatchObject({
+      first_touch_utm_source: 'google',
+      first_touch_utm_campaign: 'spring',
+      first_touch_campaign_params: { gclid: 'Cj0' },
+      first_touch_landing_page: '/landing',
+      first_touch_timestamp: '2026-03-01T10:00:00.000Z',
+      last_touch_utm_source: 'newsletter',
+      last_touch_landing_page: '/blog/launch',
+      last_touch_timestamp: '2026-03-03T10:00:00.000Z',
+    })
+    expect(signup).not.toHaveProperty('last_touch_utm_campaign')
+  })
+
+  it('test_landing_pageview_carries_its_own_touch — recorded before the pageview is sent', async () => {
+    await visit({}, { search: '?utm_source=google' })
+    const [pageview] = await sentEvents('pageview')
+    expect(pageview['first_touch_utm_source']).toBe('google')
+    expect(pageview['last_touch_utm_source']).toBe('google')
+  })
+
+  it('test_referrer_touch — other sites count, direct visits and in-app navigations do not', async () => {
+    await visit({}, { referrer: 'https://news.ycombinator.com/item?id=1' })
+    act(() => {
+      Object.assign(window.location, { pathname: '/docs', search: '' })
+      history.pushState({}, '', '/docs')
+    })
+    await flushQueue()
+    await visit({}, { pathname: '/pricing' })
+
+    const stored = JSON.parse(localStorage.getItem('_spl_attribution')!)
+    expect(stored.last).toEqual({
+      referrer_domain: 'news.ycombinator.com',
+      landing_page: '/landing',
+      timestamp: expect.any(String),
+    })
+  })
+
+  it('test_bfcache_restore_not_a_touch — coming back to the landing page keeps the last touch', async () => {
+    vi.setSystemTime(new Date('2026-03-01T10:00:00Z'))
+    await visit({}, { search: '?utm_source=google', referrer: 'https://google.com/' })
+    const before = localStorage.getItem('_spl_attribution')
+
+    vi.setSystemTime(new Date('2026-03-01T11:00:00Z'))
+    act(() => { window.dispatchEvent(Object.assign(new Event('pageshow'), { persisted: true })) })
+    await flushQueue()
+
+    expect((await sentEvents()).filter((e) => e['bfcache'])).toHaveLength(1)
+    expect(localStorage.getItem('_spl_attribution')).toBe(before)
+  })
+
+  it('test_lookback_window — expired touches are dropped and the next touch is first again', async () => {
+    vi.setSystemTime(new Date('2026-03-01T10:00:00Z'))
+    await visit({ attribution: { lookbackDays: 7 } }, { search: '?utm_source=google' })
+
+    vi.setSystemTime(new Date('2026-03-09T10:00:00Z'))
+    const { getByText } = await visit({ attribution: { lookbackDays: 7 } }, { pathname: '/pricing' })
+    act(() => getByText('signup').click())
+    await flushQueue()
+    expect((await sentEvents()).find((e) => e['event_name'] === 'signup')).not.toHaveProperty('first_touch_utm_source')
+
+    await visit({ attribution: { lookbackDays: 7 } }, { search: '?utm_source=bing' })
+    const stored = JSON.parse(localStorage.getItem('_spl_attribution')!)
+    expect(stored.first.utm_source).toBe('bing')
+  })
+
+  it('test_conversion_events_only — touches only on the listed custom events', async () => {
+    const { getByText } = await visit(
+      { attribution: { events: ['signup'] } },
+      { search: '?utm_source=google' },
+    )
+    act(() => getByText('signup').click())
+    await flushQueue()
+
+    const events = await sentEvents()
+    expect(events.find((e) => e['type'] === 'pageview')).not.toHaveProperty('first_touch_utm_source')
+    expect(events.find((e) => e['event_name'] === 'signup')!['first_touch_utm_source']).toBe('google')
+  })
+
+  it('test_touches_need_marketing_consent — not recorded without it, removed on deny', async () => {
+    await visit({}, { search: '?utm_source=google' })
+    expect(localStorage.getItem('_spl_attribution')).not.toBeNull()
+    standaloneSetConsent('denied')
+    expect(localStorage.getItem('_spl_attribution')).toBeNull()
+
+    sendBeaconMock.mockClear()
+    standaloneSetConsent({ analytics: true, marketing: false })
+    await visit({ requireConsent: true }, { search: '?utm_source=google' })
+    expect(localStorage.getItem('_spl_attribution')).toBeNull()
+    expect((await sentEvents()).some((e) => 'first_touch_utm_source' in e)).toBe(false)
+  })
+
+  it('test_touches_wait_for_pending_consent — stored on grant and attached to the held pageview', async () => {
+    await visit({ requireConsent: true }, { search: '?utm_source=google' })
+    expect(localStorage.getItem('_spl_attribution')).toBeNull()
+
+    await act(async () => { standaloneSetConsent('granted') })
+    await flushQueue()
+
+    expect(localStorage.getItem('_spl_attribution')).not.toBeNull()
+    const [pageview] = await sentEvents('pageview')
+    expect(pageview['first_touch_utm_source']).toBe('google')
+    expect(pageview['last_touch_utm_source']).toBe('google')
+  })
+})
+
+// ──────────────────────────────────────────────────────────────
+// Feature: cross-domain visitor continuity — crossDomain
+// ──────────────────────────────────────────────────────────────
+
+describe('crossDomain prop', () => {
+  function clickAnchor(href: string, type = 'click') {
+    const anchor = document.createElement('a')
+    anchor.setAttribute('href', href)
+    document.body.appendChild(anchor)
+    anchor.addEventListener(type, (e) => e.preventDefault())
+    anchor.dispatchEvent(new MouseEvent(type, { bubbles: true, cancelable: true, button: type === 'click' ? 0 : 1 }))
+    anchor.remove()
+    return anchor
+  }
+
+  beforeEach(() => {
+    localStorage.clear()
+    Object.assign(window.location, { hostname: 'app.example.com', href: 'https://app.example.com/' })
+  })
+
+  afterEach(() => {
+    localStorage.clear()
+  })
+
+  it('test_links_decorated_with_visitor_token — listed domains and their subdomains only', async () => {
+    vi.setSystemTime(new Date('2026-03-01T10:00:00Z'))
+    standaloneIdentify('visitor-abc')
+    renderProvider({ websiteId: 'site_1', crossDomain: ['example-store.com', 'checkout.example.net'] })
+    await flushQueue()
+
+    const shop = new URL(clickAnchor('https://shop.example-store.com/cart?item=1').href)
+    expect(shop.searchParams.get('item')).toBe('1')
+    expect(shop.searchParams.get('_spl_vid')).toBe(`${Date.now().toString(36)}.visitor-abc`)
+    expect(new URL(clickAnchor('https://checkout.example.net/', 'auxclick').href).searchParams.has('_spl_vid')).toBe(true)
+    expect(clickAnchor('https://example.net/').href).toBe('https://example.net/')
+    expect(clickAnchor('https://partner.com/?ref=example-store.com').href).toBe('https://partner.com/?ref=example-store.com')
+  })
+
+  it('test_anonymous_visitors_not_decorated — without identify() links are left alone', async () => {
+    renderProvider({ websiteId: 'site_1', crossDomain: ['example-store.com'] })
+    await flushQueue()
+    expect(clickAnchor('https://shop.example-store.com/').href).toBe('https://shop.example-store.com/')
+  })
+
+  it('test_no_decoration_without_consent — denied or pending consent keeps the visitor ID on this site', async () => {
+    standaloneIdentify('visitor-abc')
+    renderProvider({ websiteId: 'site_1', requireConsent: true, crossDomain: ['example-store.com'] })
+    await flushQueue()
+    expect(clickAnchor('https://shop.example-store.com/').href).toBe('https://shop.example-store.com/')
+
+    act(() => standaloneSetConsent('denied'))
+    expect(clickAnchor('https://shop.example-store.com/').href).toBe('https://shop.example-store.com/')
+
+    act(() => standaloneSetConsent('granted'))
+    expect(new URL(clickAnchor('https://shop.example-store.com/').href).searchParams.has('_spl_vid')).toBe(true)
+  })
+
+  it('test_link_click_reports_undecorated_href — the token never reaches event data', async () => {
+    standaloneIdentify('visitor-abc')
+    renderProvider({ websiteId: 'site_1', trackLinks: true, crossDomain: ['example-store.com'] })
+    await flushQueue()
+    sendBeaconMock.mockClear()
+
+    await act(async () => {
+      clickAnchor('https://shop.example-store.com/cart')
+      await Promise.resolve()
+    })
+    const events = JSON.parse(await (sendBeaconMock.mock.calls[0][1] as Blob).text()) as Record<string, unknown>[]
+    expect(events[0]['event_data']).toMatchObject({ href: 'https://shop.example-store.com/cart' })
+  })
+
+  it('test_token_adopted_and_stripped — the visitor ID is used from the first pageview', async () => {
+    const replaceState = vi.spyOn(history, 'replaceState')
+    Object.assign(window.location, {
+      hostname: 'shop.example-store.com',
+      pathname: '/cart',
+      search: `?item=1&_spl_vid=${Date.now().toString(36)}.visitor-abc`,
+      hash: '#top',
+    })
+    renderProvider({ websiteId: 'site_1', crossDomain: ['example.com'] })
+    await flushQueue()
+
+    expect(replaceState).toHaveBeenCalledWith(history.state, '', '/cart?item=1#top')
+    expect(localStorage.getItem('sparklytics_visitor_id')).toBe('visitor-abc')
+    const [pageview] = JSON.parse(await (sendBeaconMock.mock.calls[0][1] as Blob).text()) as Record<string, unknown>[]
+    expect(pageview['visitor_id']).toBe('visitor-abc')
+    expect(pageview['url']).toBe('/cart')
+    replaceState.mockRestore()
+    Object.assign(window.location, { hash: '' })
+  })
+
+  it('test_expired_token_ignored — stale links do not hand over the visitor ID', async () => {
+    const replaceState = vi.spyOn(history, 'replaceState')
+    const issued = Date.now() - 3 * 60 * 1000
+    Object.assign(window.location, { pathname: '/cart', search: `?_spl_vid=${issued.toString(36)}.visitor-abc` })
+    renderProvider({ websiteId: 'site_1', crossDomain: ['example.com'] })
+    await flushQueue()
+
+    expect(replaceState).toHaveBeenCalledWith(history.state, '', '/cart')
+    expect(localStorage.getItem('sparklytics_visitor_id')).toBeNull()
+    replaceState.mockRestore()
+  })
+
+  it('test_token_stripped_when_blocked — Do Not Track still removes it from the address bar', async () => {
+    vi.stubGlobal('navigator', { sendBeacon: sendBeaconMock, doNotTrack: '1' })
+    const replaceState = vi.spyOn(history, 'replaceState')
+    Object.assign(window.location, { pathname: '/cart', search: `?_spl_vid=${Date.now().toString(36)}.visitor-abc` })
+    renderProvider({ websiteId: 'site_1', crossDomain: ['example.com'] })
+    await flushQueue()
+
+    expect(replaceState).toHaveBeenCalledWith(history.state, '', '/cart')
+    expect(localStorage.getItem('sparklytics_visitor_id')).toBeNull()
+    replaceState.mockRestore()
+  })
+
+  it('test_token_waits_for_consent — adopted on grant, dropped on deny', async () => {
+    const land = () => Object.assign(window.location, {
+      pathname: '/cart',
+      search: `?_spl_vid=${Date.now().toString(36)}.visitor-abc`,
+    })
+    land()
+    renderProvider({ websiteId: 'site_1', requireConsent: true, crossDomain: ['example.com'] })
+    await flushQueue()
+    expect(localStorage.getItem('sparklytics_visitor_id')).toBeNull()
+
+    await act(async () => { standaloneSetConsent('granted') })
+    await flushQueue()
+    expect(localStorage.getItem('sparklytics_visitor_id')).toBe('visitor-abc')
+    const [pageview] = JSON.parse(await (sendBeaconMock.mock.calls[0][1] as Blob).text()) as Record<string, unknown>[]
+    expect(pageview['visitor_id']).toBe('visitor-abc')
+
+    cleanup()
+    localStorage.clear()
+    land()
+    renderProvider({ websiteId: 'site_1', requireConsent: true, crossDomain: ['example.com'] })
+    await flushQueue()
+    await act(async () => { standaloneSetConsent('denied') })
+    expect(localStorage.getItem('sparklytics_visitor_id')).toBeNull()
+  })
+
+  it('test_token_max_age — tokens older than 30 seconds are ignored', async () => {
+    Object.assign(window.location, { pathname: '/cart', search: `?_spl_vid=${(Date.now() - 31_000).toString(36)}.visitor-abc` })
+    renderProvider({ websiteId: 'site_1', crossDomain: ['example.com'] })
+    await flushQueue()
+    expect(localStorage.getItem('sparklytics_visitor_id')).toBeNull()
+  })
+})
+
+// ──────────────────────────────────────────────────────────────
+// Feature: super properties — register / unregister
+// ──────────────────────────────────────────────────────────────
+
+describe('super properties', () => {
+  afterEach(() => {
+    standaloneUnregister('plan')
+    standaloneUnregister('app_version')
+    localStorage.clear()
+  })
+
+  it('test_registered_on_custom_and_automatic_events — pageviews are left alone', async () => {
+    standaloneRegister({ plan: 'pro', app_version: '3.2' })
+    function Consumer() {
+      const { track } = useSparklytics()
+      return React.createElement('button', { onClick: () => track('upgrade', { plan: 'team' }) }, 'upgrade')
+    }
+    const { getByText } = renderProvider({ websiteId: 'site_1', trackLinks: true }, React.createElement(Consumer))
+    await flushQueue()
+
+    act(() => getByText('upgrade').click())
+    const anchor = document.createElement('a')
+    anchor.setAttribute('href', '/pricing')
+    anchor.addEventListener('click', (e) => e.preventDefault())
+    document.body.appendChild(anchor)
+    act(() => anchor.click())
+    anchor.remove()
+    await flushQueue()
+
+    const events = await sentEvents()
+    expect(events.find((e) => e['type'] === 'pageview')).not.toHaveProperty('event_data')
+    expect(events.find((e) => e['event_name'] === 'upgrade')!['event_data'])
+      .toEqual({ plan: 'team', app_version: '3.2' })
+    expect(events.find((e) => e['event_name'] === 'link_click')!['event_data'])
+      .toMatchObject({ href: '/pricing', plan: 'pro', app_version: '3.2' })
+  })
+
+  it('test_persist_and_unregister — persisted properties live in localStorage until removed', () => {
+    standaloneRegister({ plan: 'pro' }, { persist: true })
+    standaloneRegister({ app_version: '3.2' })
+    expect(JSON.parse(localStorage.getItem('sparklytics_super_properties')!)).toEqual({ plan: 'pro' })
+
+    // Registering again without persist moves the key out of storage
+    standaloneRegister({ plan: 'team' })
+    expect(localStorage.getItem('sparklytics_super_properties')).toBeNull()
+
+    standaloneRegister({ plan: 'pro' }, { persist: true })
+    standaloneUnregister('plan')
+    expect(localStorage.getItem('sparklytics_super_properties')).toBeNull()
+  })
+
+  it('test_hook_register — persisted properties from an earlier page load are attached', async () => {
+    localStorage.setItem('sparklytics_super_properties', JSON.stringify({ plan: 'pro' }))
+    function Consumer() {
+      const { register, unregister, track } = useSparklytics()
+      return React.createElement('button', {
+        onClick: () => {
+          register({ app_version: '3.2' })
+          track('saved')
+          unregister('app_version')
+          track('closed')
+        },
+      }, 'save')
+    }
+    const { getByText } = renderProvider({ websiteId: 'site_1' }, React.createElement(Consumer))
+    await flushQueue()
+    act(() => getByText('save').click())
+    await flushQueue()
+
+    const events = await sentEvents()
+    expect(events.find((e) => e['event_name'] === 'saved')!['event_data']).toEqual({ plan: 'pro', app_version: '3.2' })
+    expect(events.find((e) => e['event_name'] === 'closed')!['event_data']).toEqual({ plan: 'pro' })
+  })
+
+  it('test_session_start_carries_super_properties — the entry page wins over a registered key', async () => {
+    standaloneRegister({ plan: 'pro', entry_page: '/registered' })
+    renderProvider({ websiteId: 'site_1', trackSessions: true })
+    await flushQueue()
+
+    const start = (await sentEvents()).find((e) => e['event_name'] === 'session_start')!
+    expect(start['event_data']).toEqual({ entry_page: '/', plan: 'pro' })
+    standaloneUnregister('entry_page')
+  })
+
+  it('test_reset_clears_persisted — properties for the page load are kept', async () => {
+    standaloneRegister({ plan: 'pro' }, { persist: true })
+    standaloneRegister({ app_version: '3.2' })
+    standaloneReset()
+    expect(localStorage.getItem('sparklytics_super_properties')).toBeNull()
+
+    function Consumer() {
+      const { track } = useSparklytics()
+      return React.createElement('button', { onClick: () => track('saved') }, 'save')
+    }
+    const { getByText } = renderProvider({ websiteId: 'site_1' }, React.createElement(Consumer))
+    await flushQueue()
+    act(() => getByText('save').click())
+    await flushQueue()
+
+    const saved = (await sentEvents()).find((e) => e['event_name'] === 'saved')!
+    expect(saved['event_data']).toEqual({ app_version: '3.2' })
+  })
+
+  it('test_hook_reset_clears_persisted — useSparklytics().reset() matches the standalone reset()', async () => {
+    function Consumer() {
+      const { reset, track } = useSparklytics()
+      return React.createElement('button', {
+        onClick: () => {
+          reset()
+          track('logged_out')
+        },
+      }, 'logout')
+    }
+    const { getByText } = renderProvider({ websiteId: 'site_1' }, React.createElement(Consumer))
+    await flushQueue()
+    standaloneRegister({ plan: 'pro' }, { persist: true })
+    act(() => getByText('logout').click())
+    await flushQueue()
+
+    expect(localStorage.getItem('sparklytics_super_properties')).toBeNull()
+    const loggedOut = (await sentEvents()).find((e) => e['event_name'] === 'logged_out')!
+    expect(loggedOut).not.toHaveProperty('event_data')
+  })
+})
+
+// ──────────────────────────────────────────────────────────────
+// Feature: identify() with traits
+// ──────────────────────────────────────────────────────────────
+
+describe('identify traits', () => {
+  afterEach(() => {
+    standaloneReset()
+    standaloneUnregister('app_version')
+  })
+
+  it('test_identify_event_carries_traits — sent with the new visitor ID, no super properties', async () => {
+    standaloneRegister({ app_version: '3.2' })
+    function Consumer() {
+      const { identify } = useSparklytics()
+      return React.createElement('button', {
+        onClick: () => identify('visitor-abc', { plan: 'pro', role: 'admin' }),
+      }, 'login')
+    }
+    const { getByText } = renderProvider({ websiteId: 'site_1' }, React.createElement(Consumer))
+    await flushQueue()
+    act(() => getByText('login').click())
+    await flushQueue()
+
+    const identifyEvent = (await sentEvents()).find((e) => e['event_name'] === 'identify')
+    expect(identifyEvent).toMatchObject({
+      type: 'event',
+      url: '/',
+      visitor_id: 'visitor-abc',
+      event_data: { plan: 'pro', role: 'admin' },
+    })
+  })
+
+  it('test_identify_without_traits_sends_no_identify_event — only the visitor ID is stored', async () => {
+    renderProvider({ websiteId: 'site_1' })
+    await flushQueue()
+    sendBeaconMock.mockClear()
+    standaloneIdentify('visitor-abc')
+    await flushQueue()
+    expect((await sentEvents()).some((e) => e['event_name'] === 'identify')).toBe(false)
+  })
+
+  it('test_traits_before_mount — merged and sent once a provider mounts', async () => {
+    standaloneIdentify('visitor-abc', { plan: 'free' })
+    standaloneIdentify('visitor-abc', { plan: 'pro', company_size: 50 })
+    renderProvider({ websiteId: 'site_1' })
+    await flushQueue()
+
+    const events = await sentEvents()
+    expect(events.map((e) => e['event_name'] ?? e['type'])).toEqual(['pageview', 'alias', 'identify'])
+    expect(events[2]['event_data']).toEqual({ plan: 'pro', company_size: 50 })
+  })
+})
+
+// ──────────────────────────────────────────────────────────────
+// Feature: alias on the first identify() of a session
+// ──────────────────────────────────────────────────────────────
+
+describe('identify alias', () => {
+  afterEach(() => {
+    standaloneReset()
+  })
+
+  it('test_alias_on_first_identify — anonymous pageviews, then an alias for the new visitor', async () => {
+    renderProvider({ websiteId: 'site_1' })
+    await flushQueue()
+    standaloneIdentify('visitor-abc')
+    await flushQueue()
+
+    const [pageview, alias] = await sentEvents()
+    expect(pageview).not.toHaveProperty('visitor_id')
+    expect(alias).toMatchObject({ type: 'event', event_name: 'alias', visitor_id: 'visitor-abc', url: '/' })
+    expect(alias).not.toHaveProperty('anonymous_id')
+    const anonymousId = localStorage.getItem('sparklytics_anonymous_id')
+    expect(anonymousId).toBeTruthy()
+    // The server joins the anonymous events to the alias on this ID
+    expect(pageview['anonymous_id']).toBe(anonymousId)
+    expect(alias['event_data']).toEqual({ previous_id: anonymousId })
+  })
+
+  it('test_hook_reset_matches_standalone — clears the visitor and the anonymous ID', async () => {
+    function Consumer() {
+      const { reset } = useSparklytics()
+      return React.createElement('button', { onClick: () => reset() }, 'logout')
+    }
+    const { getByText } = renderProvider({ websiteId: 'site_1' }, React.createElement(Consumer))
+    await flushQueue()
+    standaloneIdentify('visitor-abc')
+
+    act(() => getByText('logout').click())
+    expect(localStorage.getItem('sparklytics_visitor_id')).toBeNull()
+    expect(localStorage.getItem('sparklytics_anonymous_id')).toBeNull()
+  })
+
+  it('test_anonymous_id_persisted — created with the first event, cleared by reset()', async () => {
+    renderProvider({ websiteId: 'site_1' })
+    await flushQueue()
+    const anonymousId = localStorage.getItem('sparklytics_anonymous_id')
+    expect(anonymousId).toBeTruthy()
+
+    cleanup()
+    renderProvider({ websiteId: 'site_1' })
+    await flushQueue()
+    expect(localStorage.getItem('sparklytics_anonymous_id')).toBe(anonymousId)
+
+    standaloneReset()
+    expect(localStorage.getItem('sparklytics_anonymous_id')).toBeNull()
+  })
+
+  it('test_alias_without_session_storage — still sent once when sessionStorage throws', async () => {
+    const unavailable = () => { throw new Error('SecurityError') }
+    vi.stubGlobal('sessionStorage', { getItem: unavailable, setItem: unavailable, removeItem: unavailable })
+    renderProvider({ websiteId: 'site_1' })
+    await flushQueue()
+    standaloneIdentify('visitor-abc')
+    standaloneReset()
+    standaloneIdentify('visitor-xyz')
+    await flushQueue()
+
+    const aliases = await sentEvents('alias')
+    expect(aliases.map((e) => e['visitor_id'])).toEqual(['visitor-abc'])
+  })
+
+  it('test_alias_once_per_session — not after reset() and a second login in the same tab', async () => {
+    renderProvider({ websiteId: 'site_1' })
+    await flushQueue()
+    standaloneIdentify('visitor-abc')
+    standaloneIdentify('visitor-abc')
+    standaloneReset()
+    standaloneIdentify('visitor-xyz')
+    await flushQueue()
+
+    const aliases = await sentEvents('alias')
+    expect(aliases.map((e) => e['visitor_id'])).toEqual(['visitor-abc'])
+  })
+
+  it('test_no_alias_when_already_identified — switching visitors never merges histories', async () => {
+    localStorage.setItem('sparklytics_visitor_id', 'visitor-abc')
+    renderProvider({ websiteId: 'site_1' })
+    await flushQueue()
+    sendBeaconMock.mockClear()
+
+    standaloneIdentify('visitor-xyz')
+    await flushQueue()
+    expect((await sentEvents()).some((e) => e['event_name'] === 'alias')).toBe(false)
+  })
+})
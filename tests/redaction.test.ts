@@ -0,0 +1,109 @@
+/**
+ * @sparklytics/next — Event redaction test suite (src/redaction.ts)
+ *
+ * Pure functions shared by the client and server entry points.
+ */
+import { describe, it, expect, vi } from 'vitest'
+import { redactEvent, prepareEvent, REDACTED } from '../src/redaction'
+
+// ──────────────────────────────────────────────────────────────
+// Feature: redactEvent
+// ──────────────────────────────────────────────────────────────
+
+describe('redactEvent', () => {
+  it('test_path_segments_glob — matching segments are replaced, query and hash kept', () => {
+    const event = redactEvent(
+      { url: '/invite/eyJhbGciOiJIUzI1NiJ9.e30.sig/accept?step=2#top' },
+      { pathSegments: ['eyJ*'] },
+    )
+    expect(event.url).toBe(`/invite/${REDACTED}/accept?step=2#top`)
+  })
+
+  it('test_path_segments_regex — regexes match decoded segments; global flag is safe', () => {
+    const rules = { pathSegments: [/^[0-9a-f]{6,}$/gi] }
+    expect(redactEvent({ url: '/reset-password/abc123' }, rules).url).toBe(`/reset-password/${REDACTED}`)
+    expect(redactEvent({ url: '/reset-password/ABC123' }, rules).url).toBe(`/reset-password/${REDACTED}`)
+    expect(redactEvent({ url: '/reset-password' }, rules).url).toBe('/reset-password')
+  })
+
+  it('test_glob_is_anchored_and_case_insensitive — partial matches do not redact', () => {
+    const rules = { pathSegments: ['tok_*'] }
+    expect(redactEvent({ url: '/a/TOK_123' }, rules).url).toBe(`/a/${REDACTED}`)
+    expect(redactEvent({ url: '/a/my-tok_123' }, rules).url).toBe('/a/my-tok_123')
+  })
+
+  it('test_referrer_path_and_origin_rules — referrers keep only the origin when matched', () => {
+    const rules = { pathSegments: ['eyJ*'], referrers: ['https://mail.google.com/*'] }
+    expect(redactEvent({ url: '/', referrer: 'https://mail.google.com/mail/u/0/#inbox/FMf' }, rules).referrer)
+      .toBe('https://mail.google.com')
+    expect(redactEvent({ url: '/', referrer: 'https://example.com/invite/eyJabc' }, rules).referrer)
+      .toBe(`https://example.com/invite/${REDACTED}`)
+  })
+
+  it('test_event_data_keys_and_urls — keys at any depth and URL-valued strings are redacted', () => {
+    const event = redactEvent(
+      {
+        url: '/',
+        event_data: {
+          href: '/invite/eyJabc',
+          email: 'a@example.com',
+          nested: { apiToken: 'x', list: [{ email: 'b@example.com' }] },
+          label: 'eyJ not a path',
+        },
+      },
+      { pathSegments: ['eyJ*'], eventDataKeys: ['email', '*token*'] },
+    )
+    expect(event.event_data).toEqual({
+      href: `/invite/${REDACTED}`,
+      email: REDACTED,
+      nested: { apiToken: REDACTED, list: [{ email: REDACTED }] },
+      label: 'eyJ not a path',
+    })
+  })
+
+  it('test_page_fields_redacted — page_data, title and campaign_params follow the same rules', () => {
+    const event = redactEvent(
+      {
+        url: '/',
+        title: 'Reset password eyJabc — Acme',
+        page_data: { return_to: '/invite/eyJabc', email: 'a@example.com', plan: 'pro' },
+        campaign_params: { gclid: 'Cj0KCQ', email: 'a@example.com' },
+      },
+      { pathSegments: ['eyJ*'], eventDataKeys: ['email'] },
+    )
+    expect(event.title).toBe(`Reset password ${REDACTED} — Acme`)
+    expect(event.page_data).toEqual({ return_to: `/invite/${REDACTED}`, email: REDACTED, plan: 'pro' })
+    expect(event.campaign_params).toEqual({ gclid: 'Cj0KCQ', email: REDACTED })
+  })
+
+  it('test_input_not_mutated — redaction returns a copy', () => {
+    const input = { url: '/invite/eyJabc', event_data: { email: 'a@example.com' } }
+    redactEvent(input, { pathSegments: ['eyJ*'], eventDataKeys: ['email'] })
+    expect(input).toEqual({ url: '/invite/eyJabc', event_data: { email: 'a@example.com' } })
+  })
+})
+
+// ──────────────────────────────────────────────────────────────
+// Feature: prepareEvent
+// ──────────────────────────────────────────────────────────────
+
+describe('prepareEvent', () => {
+  it('test_before_send_then_redact — redaction also covers what beforeSend adds', () => {
+    const event = prepareEvent(
+      { url: '/a' },
+      (e) => ({ ...e, url: '/invite/eyJabc' }),
+      { pathSegments: ['eyJ*'] },
+    )
+    expect(event?.url).toBe(`/invite/${REDACTED}`)
+  })
+
+  it('test_before_send_null_drops — returning null drops the event', () => {
+    const rules = { pathSegments: ['*'] }
+    expect(prepareEvent({ url: '/admin' }, () => null, rules)).toBeNull()
+  })
+
+  it('test_before_send_error_propagates — callers decide how to handle exceptions', () => {
+    const beforeSend = vi.fn(() => { throw new Error('boom') })
+    expect(() => prepareEvent({ url: '/' }, beforeSend)).toThrow('boom')
+  })
+})
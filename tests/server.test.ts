@@ -824,3 +824,227 @@ describe('trackServerMiddleware', () => {
     expect(event['url']).toBe('/virtual-page')
   })
 })
+
+// ──────────────────────────────────────────────────────────────
+// Feature: beforeSend and redact on createServerClient
+// ──────────────────────────────────────────────────────────────
+
+describe('createServerClient — beforeSend and redact', () => {
+  const host = 'https://analytics.example.com'
+
+  function sentEvent(call = 0) {
+    const [, init] = fetchMock.mock.calls[call] as [string, RequestInit]
+    return (JSON.parse(init.body as string) as Record<string, unknown>[])[0]
+  }
+
+  it('test_server_redact — url, referrer and event_data keys are redacted before sending', async () => {
+    const client = createServerClient({
+      host,
+      websiteId: 'site_1',
+      redact: { pathSegments: ['eyJ*'], referrers: ['https://mail.example.com/*'], eventDataKeys: ['email'] },
+    })
+    await client.trackEvent({
+      url: '/invite/eyJhbGciOi.payload.sig',
+      referrer: 'https://mail.example.com/inbox/42',
+      eventName: 'invite_accepted',
+      eventData: { email: 'jane@example.com', plan: 'pro' },
+    })
+
+    expect(sentEvent()).toMatchObject({
+      url: '/invite/[redacted]',
+      referrer: 'https://mail.example.com',
+      event_data: { email: '[redacted]', plan: 'pro' },
+    })
+  })
+
+  it('test_server_redact_from_request — request-derived urls are redacted too', async () => {
+    const client = createServerClient({ host, websiteId: 'site_1', redact: { pathSegments: [/^[0-9a-f]{12,}$/] } })
+    await client.fromRequest(new Request('https://app.example.com/reset-password/9f86d081884c')).trackPageview()
+
+    expect(sentEvent()['url']).toBe('/reset-password/[redacted]')
+  })
+
+  it('test_server_before_send — can modify events and drop them with null', async () => {
+    const client = createServerClient({
+      host,
+      websiteId: 'site_1',
+      beforeSend: (event) => (event.url.startsWith('/admin') ? null : { ...event, event_data: { region: 'eu' } }),
+    })
+    await client.trackPageview({ url: '/admin/users' })
+    await client.trackEvent({ url: '/pricing', eventName: 'view' })
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(sentEvent()).toMatchObject({ url: '/pricing', event_name: 'view', event_data: { region: 'eu' } })
+  })
+
+  it('test_server_before_send_error_follows_silent — exceptions are warned or propagated', async () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const beforeSend = () => { throw new Error('boom') }
+
+    await createServerClient({ host, websiteId: 'site_1', beforeSend }).trackPageview({ url: '/' })
+    expect(warnSpy).toHaveBeenCalled()
+    await expect(
+      createServerClient({ host, websiteId: 'site_1', beforeSend, silent: false }).trackPageview({ url: '/' }),
+    ).rejects.toThrow('boom')
+    expect(fetchMock).not.toHaveBeenCalled()
+    warnSpy.mockRestore()
+  })
+
+  it('test_with_analytics_uses_pipeline — withAnalytics passes beforeSend/redact through', async () => {
+    const handler = withAnalytics(async () => new Response('ok'), {
+      host,
+      websiteId: 'site_1',
+      redact: { pathSegments: ['eyJ*'] },
+    })
+    await handler(new Request('https://app.example.com/invite/eyJabc'))
+
+    expect(sentEvent()['url']).toBe('/invite/[redacted]')
+  })
+})
+
+// ──────────────────────────────────────────────────────────────
+// Feature: campaign parameters — fromRequest and campaign
+// ──────────────────────────────────────────────────────────────
+
+describe('createServerClient — campaign parameters', () => {
+  const host = 'https://analytics.example.com'
+
+  function sentEvent(call = 0) {
+    const [, init] = fetchMock.mock.calls[call] as [string, RequestInit]
+    return (JSON.parse(init.body as string) as Record<string, unknown>[])[0]
+  }
+
+  it('test_from_request_forwards_campaign — UTMs top-level, click IDs in campaign_params', async () => {
+    const client = createServerClient({ host, websiteId: 'site_1' })
+    const request = new Request('https://app.example.com/landing?utm_source=google&gclid=Cj0KCQ&msclkid=abc&q=shoes')
+    await client.fromRequest(request).trackPageview()
+
+    const event = sentEvent()
+    expect(event['url']).toBe('/landing')
+    expect(event['utm_source']).toBe('google')
+    expect(event['campaign_params']).toEqual({ gclid: 'Cj0KCQ', msclkid: 'abc' })
+  })
+
+  it('test_campaign_params_config — custom list; events do not carry campaign fields', async () => {
+    const client = createServerClient({ host, websiteId: 'site_1', campaignParams: ['aff'] })
+    const bound = client.fromRequest(new Request('https://app.example.com/?aff=42&gclid=Cj0KCQ'))
+    await bound.trackPageview()
+    await bound.trackEvent({ eventName: 'signup' })
+
+    expect(sentEvent(0)['campaign_params']).toEqual({ aff: '42' })
+    expect(sentEvent(1)).not.toHaveProperty('campaign_params')
+  })
+
+  it('test_campaign_option — passed explicitly to trackServerPageview', async () => {
+    await trackServerPageview({
+      host,
+      websiteId: 'site_1',
+      url: '/',
+      campaign: { utm_medium: 'email', ttclid: 'E.C.P' },
+    })
+    expect(sentEvent()).toMatchObject({ utm_medium: 'email', campaign_params: { ttclid: 'E.C.P' } })
+  })
+})
+
+// ──────────────────────────────────────────────────────────────
+// Feature: identify with traits — createServerClient and fromRequest
+// ──────────────────────────────────────────────────────────────
+
+describe('createServerClient — identify', () => {
+  const host = 'https://analytics.example.com'
+
+  function sent(call = 0) {
+    const [, init] = fetchMock.mock.calls[call] as [string, RequestInit]
+    return {
+      event: (JSON.parse(init.body as string) as Record<string, unknown>[])[0],
+      headers: init.headers as Record<string, string>,
+    }
+  }
+
+  it('test_identify_sends_traits — an "identify" event for the visitor, url defaults to "/"', async () => {
+    const client = createServerClient({ host, websiteId: 'site_1' })
+    await client.identify('a3f8b2c1d4e59067', { plan: 'enterprise', seats: 50 })
+
+    expect(sent().event).toEqual({
+      website_id: 'site_1',
+      type: 'event',
+      url: '/',
+      visitor_id: 'a3f8b2c1d4e59067',
+      event_name: 'identify',
+      event_data: { plan: 'enterprise', seats: 50 },
+    })
+  })
+
+  it('test_identify_from_request — request fields pre-populated, options override them', async () => {
+    const client = createServerClient({ host, websiteId: 'site_1' })
+    const request = new Request('https://app.example.com/api/billing/webhook?utm_source=google', {
+      headers: { 'user-agent': 'Stripe/1.0', 'x-forwarded-for': '203.0.113.7' },
+    })
+    await client.fromRequest(request).identify('visitor-1', { plan: 'pro' })
+    await client.fromRequest(request).identify('visitor-1', undefined, { url: '/account' })
+
+    const { event, headers } = sent(0)
+    expect(event).toMatchObject({ url: '/api/billing/webhook', visitor_id: 'visitor-1', event_data: { plan: 'pro' } })
+    expect(event).not.toHaveProperty('utm_source')
+    expect(headers['User-Agent']).toBe('Stripe/1.0')
+    expect(sent(1).event).toMatchObject({ url: '/account', event_name: 'identify' })
+    expect(sent(1).event).not.toHaveProperty('event_data')
+  })
+
+  it('test_identify_pipeline_and_silent — beforeSend and redact apply; errors are warned', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const client = createServerClient({ host, websiteId: 'site_1', redact: { eventDataKeys: ['email'] } })
+    await client.identify('visitor-1', { plan: 'pro', email: 'a@example.com' })
+    expect(sent().event['event_data']).toEqual({ plan: 'pro', email: '[redacted]' })
+
+    fetchMock.mockResolvedValueOnce(new Response('', { status: 500 }))
+    await expect(client.identify('visitor-1', { plan: 'pro' })).resolves.toBeUndefined()
+    expect(warn).toHaveBeenCalled()
+    warn.mockRestore()
+  })
+})
+
+// ──────────────────────────────────────────────────────────────
+// Feature: alias — createServerClient and fromRequest
+// ──────────────────────────────────────────────────────────────
+
+describe('createServerClient — alias', () => {
+  const host = 'https://analytics.example.com'
+
+  function sent(call = 0) {
+    const [, init] = fetchMock.mock.calls[call] as [string, RequestInit]
+    return {
+      event: (JSON.parse(init.body as string) as Record<string, unknown>[])[0],
+      headers: init.headers as Record<string, string>,
+    }
+  }
+
+  it('test_alias_with_previous_id — ties a known anonymous ID to the visitor', async () => {
+    const client = createServerClient({ host, websiteId: 'site_1' })
+    await client.alias('a3f8b2c1d4e59067', 'anon-42')
+
+    expect(sent().event).toEqual({
+      website_id: 'site_1',
+      type: 'event',
+      url: '/',
+      visitor_id: 'a3f8b2c1d4e59067',
+      event_name: 'alias',
+      event_data: { previous_id: 'anon-42' },
+    })
+  })
+
+  it('test_alias_from_request — without previous_id the request identifies the anonymous visitor', async () => {
+    const client = createServerClient({ host, websiteId: 'site_1' })
+    const request = new Request('https://app.example.com/api/signup', {
+      method: 'POST',
+      headers: { 'user-agent': 'Mozilla/5.0', 'x-forwarded-for': '203.0.113.7' },
+    })
+    await client.fromRequest(request).alias('visitor-1')
+
+    const { event, headers } = sent()
+    expect(event).toMatchObject({ url: '/api/signup', visitor_id: 'visitor-1', event_name: 'alias' })
+    expect(event).not.toHaveProperty('event_data')
+    expect(headers['User-Agent']).toBe('Mozilla/5.0')
+    expect(headers['X-Forwarded-For']).toBe('203.0.113.7')
+  })
+})